@@ -13,6 +13,10 @@ import { createBundleCommand } from './commands/bundle.js';
 import { createRelatedCommand } from './commands/related.js';
 import { createValidateCommand } from './commands/validate.js';
 import { createUpdateCommand } from './commands/update.js';
+import { createClaimCommand } from './commands/claim.js';
+import { createQueueCommand } from './commands/queue.js';
+import { createJournalCommand } from './commands/journal.js';
+import { createCoordinatorCommand } from './commands/coordinator.js';
 import { createMcpCommand } from './commands/mcp.js';
 import { createVersionCommand } from './commands/version.js';
 
@@ -46,6 +50,10 @@ program.addCommand(createBundleCommand());
 program.addCommand(createRelatedCommand());
 program.addCommand(createValidateCommand());
 program.addCommand(createUpdateCommand());
+program.addCommand(createClaimCommand());
+program.addCommand(createQueueCommand());
+program.addCommand(createJournalCommand());
+program.addCommand(createCoordinatorCommand());
 program.addCommand(createVersionCommand());
 program.addCommand(createMcpCommand());
 
@@ -61,6 +69,10 @@ Examples:
   ${chalk.cyan('context-crystallizer related src/auth.ts')}     Find related contexts
   ${chalk.cyan('context-crystallizer validate')}               Validate quality
   ${chalk.cyan('context-crystallizer update')}                 Update changed contexts
+  ${chalk.cyan('context-crystallizer claim release src/a.ts -f')} Return a crashed agent's file to the queue
+  ${chalk.cyan('context-crystallizer queue pin src/auth')}      Crystallize a directory next
+  ${chalk.cyan('context-crystallizer journal show -t fail -f')} Follow failures as they happen
+  ${chalk.cyan('context-crystallizer coordinator --host 0.0.0.0')} Share the queue with agents on other machines
   ${chalk.cyan('context-crystallizer version')}                Display version information
   ${chalk.cyan('context-crystallizer mcp')}                    Start MCP server
 
@@ -7,11 +7,12 @@ export function createBundleCommand() {
     .description('Combine multiple crystallized contexts for complex understanding')
     .argument('<files...>', 'File paths to include in bundle')
     .option('-t, --max-tokens <number>', 'Maximum total tokens for bundle', '8000')
+    .option('-p, --package <path>', 'Only include files from this workspace package root')
     .option('-j, --json', 'Output as JSON')
     .action(async (files: string[], options) => {
       try {
         const core = new CrystallizerCore();
-        const bundle = await core.getCrystallizedBundle(files, parseInt(options.maxTokens));
+        const bundle = await core.getCrystallizedBundle(files, parseInt(options.maxTokens), options.package);
         
         if (options.json) {
           console.log(JSON.stringify(bundle, null, 2));
@@ -33,7 +34,7 @@ export function createBundleCommand() {
         
         bundle.contexts.forEach((context, index) => {
           console.log(chalk.bold(`${index + 1}. ${context.file}`));
-          console.log(chalk.gray(`   Category: ${context.category} | Complexity: ${context.complexity} | Tokens: ${context.tokenCount}`));
+          console.log(chalk.gray(`   Category: ${context.category} | Complexity: ${context.complexity} | Tokens: ${context.tokenCount}${context.package ? ` | Package: ${context.package}` : ''}`));
           console.log(chalk.white(`   ${context.purpose}`));
           
           if (context.keyTerms && context.keyTerms.length > 0) {
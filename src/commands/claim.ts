@@ -0,0 +1,68 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { CrystallizerCore } from '../shared/crystallizer-core.js';
+
+export function createClaimCommand() {
+  const command = new Command('claim')
+    .description('Renew or release file claims held by crystallization agents');
+
+  command.addCommand(new Command('extend')
+    .description('Renew the lease on a claimed file, or on every claim of the agent when no file is given')
+    .argument('[file-path]', 'Claimed file (relative to the repository)')
+    .option('-a, --agent <id>', 'Agent that holds the claim')
+    .option('-c, --chunk <index>', 'Chunk index for chunked files')
+    .option('-s, --seconds <seconds>', 'Lease length from now in seconds')
+    .option('-j, --json', 'Output as JSON')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .option('--coordinator <url>', 'Renew the lease through a coordinator server instead of local files')
+    .option('--token <token>', 'Bearer token of the coordinator (default: $CRYSTALLIZER_COORDINATOR_TOKEN)')
+    .action(async (filePath, options) => {
+      try {
+        const core = new CrystallizerCore(options.session, options.coordinator ? { url: options.coordinator, token: options.token ?? process.env.CRYSTALLIZER_COORDINATOR_TOKEN } : undefined);
+        const result = await core.extendClaim(options.agent, filePath, {
+          chunkIndex: options.chunk ? parseInt(options.chunk) : undefined,
+          seconds: options.seconds ? parseInt(options.seconds) : undefined,
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
+        if (result.renewed.length === 0) {
+          console.log(chalk.yellow(`⚠️  ${result.agentId} holds no active claims`));
+          return;
+        }
+        console.log(chalk.green(`✓ Renewed ${result.renewed.length} claim${result.renewed.length === 1 ? '' : 's'} for ${result.agentId}`));
+        result.renewed.forEach(file => console.log(chalk.gray(`   ${file}`)));
+      } catch (error) {
+        console.error(chalk.red('❌ Failed to extend claim:'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    }));
+
+  command.addCommand(new Command('release')
+    .description('Return a claimed file to the queue without storing a context')
+    .argument('<file-path>', 'Claimed file (relative to the repository)')
+    .option('-a, --agent <id>', 'Agent that holds the claim')
+    .option('-c, --chunk <index>', 'Chunk index for chunked files')
+    .option('-f, --force', 'Release the claim whichever agent holds it (e.g. after a crash)')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (filePath, options) => {
+      try {
+        const core = new CrystallizerCore(options.session);
+        const result = await core.releaseClaim(filePath, options.agent, {
+          chunkIndex: options.chunk ? parseInt(options.chunk) : undefined,
+          force: options.force,
+        });
+        console.log(chalk.green(`✓ Released ${result.released} (claimed by ${result.agentId})`));
+      } catch (error) {
+        console.error(chalk.red('❌ Failed to release claim:'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    }));
+
+  return command;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { CoordinatorServer, DEFAULT_COORDINATOR_PORT } from '../shared/coordinator-server.js';
+
+export function createCoordinatorCommand() {
+  return new Command('coordinator')
+    .description('Serve the crystallization queue of a repository over HTTP so agents on other machines can claim, heartbeat and store through it')
+    .argument('[repo-path]', 'Initialized repository to coordinate', '.')
+    .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_COORDINATOR_PORT))
+    .option('--host <host>', 'Address to listen on; use 0.0.0.0 to accept agents from the LAN (requires a token)', '127.0.0.1')
+    .option('--token <token>', 'Require this bearer token from clients (default: $CRYSTALLIZER_COORDINATOR_TOKEN); required beyond localhost')
+    .option('--session <name>', 'Named session to open at startup; clients may use any initialized session (default: "default")')
+    .action(async (repoPath: string, options) => {
+      try {
+        const server = new CoordinatorServer(repoPath, { token: options.token ?? process.env.CRYSTALLIZER_COORDINATOR_TOKEN });
+        const url = await server.start(parseInt(options.port), options.host, options.session);
+
+        console.log(chalk.green(`✓ Coordinator for ${repoPath} listening on ${url}`));
+        console.log(chalk.gray('   Routes: POST /guidance, /claim, /claim/batch, /heartbeat, /release, /store, /store/batch, /outcome, /progress (also GET)'));
+        console.log(chalk.yellow(`💡 Point agents at it with "context-crystallizer mcp --coordinator ${url}" (Ctrl+C to stop)`));
+
+        const shutdown = async () => {
+          await server.stop();
+          process.exit(0);
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+      } catch (error) {
+        console.error(chalk.red('❌ Failed to start coordinator:'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+}
\ No newline at end of file
@@ -4,19 +4,84 @@ import { CrystallizerCore } from '../shared/crystallizer-core.js';
 
 export function createInitCommand() {
   return new Command('init')
-    .description('Initialize crystallization for a repository. Automatically respects .gitignore patterns.')
+    .description('Initialize crystallization for a repository. Automatically respects .gitignore files, .git/info/exclude and .crystallizerignore.')
     .argument('<repo-path>', 'Path to the repository to crystallize')
     .option('-e, --exclude <patterns...>', 'Additional patterns to exclude (beyond .gitignore and defaults: node_modules, .git, dist, build)', ['node_modules', '.git', 'dist', 'build'])
+    .option('-i, --include <globs...>', 'Only crystallize matching paths (e.g. "services/payments/**"); running init again with other globs extends the session')
+    .option('--session <name>', 'Named session to create or extend, with its own queue, scope and progress (default: "default")')
     .action(async (repoPath: string, options) => {
       try {
         console.log(chalk.blue('🔮 Initializing crystallization...'));
         
-        const core = new CrystallizerCore();
-        const result = await core.initializeCrystallization(repoPath, options.exclude);
+        const core = new CrystallizerCore(options.session);
+        let lastReported = 0;
+        const result = await core.initializeCrystallization(repoPath, options.exclude, {
+          include: options.include,
+          onScanProgress: progress => {
+            // Large trees take a while; report every few thousand files
+            if (progress.scanned - lastReported >= 5000) {
+              lastReported = progress.scanned;
+              console.log(chalk.gray(`   Scanned ${progress.scanned.toLocaleString()} files (${progress.cacheHits.toLocaleString()} from cache)...`));
+            }
+          },
+        });
         
         console.log(chalk.green('✓ Crystallization initialized successfully!'));
         console.log(chalk.cyan(`📁 Repository: ${repoPath}`));
+        console.log(chalk.cyan(`🗂️  Session: ${result.session}`));
         console.log(chalk.cyan(`📊 Files queued: ${result.filesQueued}`));
+        if (result.includePatterns.length > 0) {
+          console.log(chalk.cyan(`🎯 Scope: ${result.includePatterns.join(', ')}`));
+        }
+        if (result.workspacePackages.length > 0) {
+          console.log(chalk.cyan(`📦 Workspace packages: ${result.workspacePackages.length}`));
+          result.workspacePackages.forEach(pkg => {
+            console.log(chalk.gray(`   ${pkg.relativePath} (${pkg.type}: ${pkg.name})`));
+          });
+        }
+        const ignoreEntries = Object.entries(result.ignoreStats);
+        if (ignoreEntries.length > 0) {
+          console.log(chalk.cyan('🚫 Excluded by ignore source (files, or skipped directories):'));
+          ignoreEntries
+            .sort(([, a], [, b]) => b - a)
+            .forEach(([source, count]) => {
+              console.log(chalk.gray(`   ${source}: ${count}`));
+            });
+        }
+        if (result.generatedFiles.files.length > 0) {
+          console.log(chalk.cyan(`🤖 Generated/vendored files: ${result.generatedFiles.overview} summarized automatically, ${result.generatedFiles.excluded} excluded`));
+        }
+        if (result.undecodableFiles.length > 0) {
+          console.log(chalk.yellow(`⚠️  Files that could not be decoded: ${result.undecodableFiles.length}`));
+          result.undecodableFiles.slice(0, 10).forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - ${file.reason}`));
+          });
+        }
+        if (result.centrality) {
+          console.log(chalk.cyan(`🕸️  Import centrality (${result.centrality.algorithm}): ${result.centrality.files} files, ${result.centrality.imports} imports, ${result.centrality.reprioritized} work items reprioritized`));
+          result.centrality.top.slice(0, 5).forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} (imported by ${file.importedBy}, score ${file.score})`));
+          });
+        }
+        if (result.dependencyOrder) {
+          console.log(chalk.cyan(`🧱 Dependency order: ${result.dependencyOrder.levels} levels over ${result.dependencyOrder.files} files, ${result.dependencyOrder.cycles.length} import cycles`));
+          result.dependencyOrder.cycles.slice(0, 5).forEach(cycle => {
+            console.log(chalk.gray(`   cycle: ${cycle.join(' ↔ ')}`));
+          });
+        }
+        if (result.rescan) {
+          console.log(chalk.cyan(`🔄 Changes since the session was saved: ${result.rescan.added} added, ${result.rescan.modified} modified, ${result.rescan.deleted} deleted`));
+          const { added, modified, deleted } = result.rescan.files;
+          [...added.map(file => `+ ${file}`), ...modified.map(file => `~ ${file}`), ...deleted.map(file => `- ${file}`)].slice(0, 10).forEach(line => {
+            console.log(chalk.gray(`   ${line}`));
+          });
+        }
+        if (result.survey) {
+          const reasons = Object.entries(result.survey.byReason).map(([reason, count]) => `${count} ${reason}`).join(', ');
+          console.log(chalk.cyan(`🔭 Survey pass: ${result.survey.selected} files first with the overview template (${reasons})`));
+          console.log(chalk.gray(`   covers ${result.survey.directories.covered}/${result.survey.directories.total} directories and ${result.survey.categories.covered.length}/${result.survey.categories.total.length} categories`));
+        }
+        console.log(chalk.gray('⚙️  Scanner rules: .context-crystallizer/config.json (see config.schema.json)'));
         console.log(chalk.yellow('💡 Use "context-crystallizer progress" to monitor crystallization'));
       } catch (error) {
         console.error(chalk.red('❌ Failed to initialize crystallization:'));
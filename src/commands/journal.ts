@@ -0,0 +1,151 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { CrystallizerCore } from '../shared/crystallizer-core.js';
+import { JOURNAL_EVENT_TYPES, JournalFilter } from '../core/event-journal.js';
+import { JournalEvent, JournalEventType } from '../types/index.js';
+
+const FOLLOW_INTERVAL_MS = 1000;
+
+export function createJournalCommand() {
+  const command = new Command('journal')
+    .description('Query the event journal of a crystallization session, or rebuild the session from it');
+
+  command.addCommand(new Command('show')
+    .description('Show journal events, oldest first')
+    .argument('[patterns...]', 'Only events for these file paths, directories or globs (relative to the repository)')
+    .option('-t, --type <types>', `Comma-separated event types (${JOURNAL_EVENT_TYPES.join(', ')})`)
+    .option('-a, --agent <id>', 'Only events of this agent')
+    .option('--since <time>', 'Only events after an ISO date or a duration ago, e.g. 30m, 2h, 1d')
+    .option('--session-id <id>', 'Only events of this session run (default: all runs)')
+    .option('-n, --limit <count>', 'Show the last N matching events', '50')
+    .option('-f, --follow', 'Keep printing new events as they are appended (Ctrl+C to stop)')
+    .option('-j, --json', 'Output events as JSON lines')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (patterns, options) => {
+      try {
+        const core = new CrystallizerCore(options.session);
+        const filter: JournalFilter = {
+          types: parseTypes(options.type),
+          agentId: options.agent,
+          files: patterns,
+          since: options.since ? parseSince(options.since) : undefined,
+          sessionId: options.sessionId,
+        };
+        const print = (event: JournalEvent) => console.log(options.json ? JSON.stringify(event) : formatEvent(event));
+
+        const result = await core.readJournal(filter);
+        if (!options.json && !options.follow && result.events.length === 0) {
+          console.log(chalk.yellow(`⚠️  No matching events in ${result.path}`));
+        }
+        result.events.slice(-Math.max(0, parseInt(options.limit))).forEach(print);
+        if (result.malformed > 0) {
+          console.error(chalk.yellow(`⚠️  Skipped ${result.malformed} malformed journal lines`));
+        }
+
+        let offset = result.offset;
+        while (options.follow) {
+          await new Promise(resolve => setTimeout(resolve, FOLLOW_INTERVAL_MS));
+          const next = await core.readJournal(filter, offset);
+          next.events.forEach(print);
+          offset = next.offset;
+        }
+      } catch (error) {
+        console.error(chalk.red('❌ Failed to read journal:'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    }));
+
+  command.addCommand(new Command('rebuild')
+    .description('Rebuild the queue state of a session by replaying its journal (e.g. after processing-queue.json was corrupted)')
+    .option('--session-id <id>', 'Session run to rebuild (default: the one initialized last)')
+    .option('-j, --json', 'Output as JSON')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (options) => {
+      try {
+        const core = new CrystallizerCore(options.session);
+        const result = await core.rebuildSessionFromJournal(options.sessionId);
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
+        console.log(chalk.green(`✓ Rebuilt session ${result.session} (${result.sessionId}) from ${result.events} events`));
+        console.log(chalk.gray(`   ${result.processed} processed, ${result.queued} queued, ${result.skipped} skipped, ${result.deadLetter} dead-lettered, ${result.removed} removed`));
+        if (result.malformedLines > 0) {
+          console.log(chalk.yellow(`⚠️  Skipped ${result.malformedLines} malformed journal lines`));
+        }
+      } catch (error) {
+        console.error(chalk.red('❌ Failed to rebuild session:'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    }));
+
+  return command;
+}
+
+function parseTypes(value?: string): JournalEventType[] | undefined {
+  if (!value) return undefined;
+  const types = value.split(',').map(type => type.trim()).filter(Boolean);
+  const unknown = types.filter(type => !JOURNAL_EVENT_TYPES.includes(type as JournalEventType));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown event type: ${unknown.join(', ')} (expected ${JOURNAL_EVENT_TYPES.join(', ')})`);
+  }
+  return types as JournalEventType[];
+}
+
+function parseSince(value: string): Date {
+  const duration = value.match(/^(\d+)([smhd])$/);
+  if (duration) {
+    const unitMs = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[duration[2] as 's' | 'm' | 'h' | 'd'];
+    return new Date(Date.now() - parseInt(duration[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --since value "${value}": use an ISO date or a duration such as 30m, 2h or 1d`);
+  }
+  return date;
+}
+
+function formatEvent(event: JournalEvent): string {
+  const details = event.details || {};
+  const summary = (() => {
+    switch (event.type) {
+      case 'init':
+        return details.recovered ? 'recovered session' : 'new session';
+      case 'store': {
+        const completion = details.completion as { durationMs?: number } | undefined;
+        const duration = completion?.durationMs !== undefined ? `${Math.round(completion.durationMs / 1000)}s after claim` : '';
+        return details.survey ? `survey overview${duration ? `, ${duration}` : ''}` : duration;
+      }
+      case 'skip':
+      case 'defer':
+      case 'fail':
+        return `${details.reason ?? ''}${details.deadLettered ? ' (dead-lettered)' : ''}`;
+      case 'validation_failure':
+        return Array.isArray(details.errors) ? details.errors.join('; ') : '';
+      case 'edit':
+        return `${details.action}${details.delta !== undefined ? ` ${details.delta}` : ''}: ${Array.isArray(details.files) ? details.files.length : 0} files`;
+      case 'survey':
+        return `${Array.isArray(details.files) ? details.files.length : 0} files`;
+      case 'rescan':
+        return `${details.added ?? 0} added, ${details.modified ?? 0} modified, ${details.deleted ?? 0} deleted`;
+      case 'update':
+        return `${details.contextsAdded ?? 0} added, ${details.contextsUpdated ?? 0} modified, ${details.contextsRemoved ?? 0} removed`;
+      case 'rebuild':
+        return `${details.processed ?? 0} processed, ${details.queued ?? 0} queued`;
+      default:
+        return '';
+    }
+  })();
+
+  return [
+    chalk.gray(new Date(event.timestamp).toLocaleString()),
+    chalk.cyan(event.type.padEnd(18)),
+    event.agentId ? chalk.magenta(event.agentId) : '',
+    event.file ?? '',
+    summary ? chalk.gray(summary) : '',
+  ].filter(Boolean).join('  ');
+}
\ No newline at end of file
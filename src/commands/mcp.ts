@@ -4,11 +4,15 @@ import chalk from 'chalk';
 export function createMcpCommand() {
   return new Command('mcp')
     .description('Start MCP server for AI agent integration')
-    .action(async () => {
+    .option('--coordinator <url>', 'Claim, store and report progress through a coordinator server (see "coordinator") instead of local files')
+    .option('--token <token>', 'Bearer token of the coordinator (default: $CRYSTALLIZER_COORDINATOR_TOKEN)')
+    .action(async (options) => {
       console.log(chalk.blue('🚀 Starting Context Crystallizer MCP server...'));
       
       // Import and start the MCP server
       const { startMcpServer } = await import('../mcp-server.js');
-      await startMcpServer();
+      await startMcpServer({
+        coordinator: options.coordinator ? { url: options.coordinator, token: options.token ?? process.env.CRYSTALLIZER_COORDINATOR_TOKEN } : undefined,
+      });
     });
 }
\ No newline at end of file
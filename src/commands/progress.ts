@@ -5,14 +5,67 @@ import { CrystallizerCore } from '../shared/crystallizer-core.js';
 export function createProgressCommand() {
   return new Command('progress')
     .description('Show crystallization progress')
+    .option('-f, --failed', 'List failed, dead-lettered and skipped files')
+    .option('-s, --stats', 'Show session analytics: throughput, per-category and per-agent rates, slowest files, idle gaps')
     .option('-j, --json', 'Output as JSON')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .option('--coordinator <url>', 'Read the progress from a coordinator server instead of local files')
+    .option('--token <token>', 'Bearer token of the coordinator (default: $CRYSTALLIZER_COORDINATOR_TOKEN)')
     .action(async (options) => {
       try {
-        const core = new CrystallizerCore();
+        const core = new CrystallizerCore(options.session, options.coordinator ? { url: options.coordinator, token: options.token ?? process.env.CRYSTALLIZER_COORDINATOR_TOKEN } : undefined);
         const progress = await core.getCrystallizationProgress();
         
         if (options.json) {
-          console.log(JSON.stringify(progress, null, 2));
+          console.log(JSON.stringify(options.failed ? progress.outcomes : options.stats ? progress.analytics : progress, null, 2));
+          return;
+        }
+        
+        if (options.stats) {
+          const { throughput, byCategory, byAgent, slowestFiles, idleGaps, totalIdleMs, remainingTokens, estimatedTimeRemaining } = progress.analytics;
+          console.log(chalk.blue('📈 Session Analytics'));
+          console.log(chalk.cyan('─'.repeat(40)));
+          if (!throughput) {
+            console.log(chalk.yellow('No timed completions yet - analytics appear once agents store claimed files'));
+            return;
+          }
+          console.log(chalk.green(`⚡ Throughput: ${throughput.filesPerHour} files/hour, ${throughput.tokensPerMinute.toLocaleString()} tokens/minute (last ${throughput.files} files)`));
+          console.log(chalk.magenta(`⏰ Remaining: ${remainingTokens.toLocaleString()} tokens${estimatedTimeRemaining !== undefined ? `, about ${formatDuration(estimatedTimeRemaining)}` : ''}`));
+          console.log(chalk.cyan('📂 By category:'));
+          byCategory.forEach(entry => {
+            console.log(chalk.gray(`   ${entry.category}: ${entry.files} files, ${formatDuration(entry.avgDurationMs)} per file, ${entry.tokensPerMinute.toLocaleString()} tokens/minute`));
+          });
+          console.log(chalk.cyan('🤝 By agent:'));
+          byAgent.forEach(agent => {
+            console.log(chalk.gray(`   ${agent.agentId}: ${agent.files} files, ${formatDuration(agent.avgDurationMs)} per file, ${agent.avgTokensPerFile.toLocaleString()} tokens per file, ${agent.tokensPerMinute.toLocaleString()} tokens/minute`));
+          });
+          console.log(chalk.cyan('🐢 Slowest files:'));
+          slowestFiles.forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - ${formatDuration(file.durationMs)} (${file.agentId}, ${file.estimatedTokens.toLocaleString()} tokens)`));
+          });
+          console.log(chalk.cyan(`💤 Idle: ${formatDuration(totalIdleMs)} in ${idleGaps.length} gaps`));
+          idleGaps.forEach(gap => {
+            console.log(chalk.gray(`   ${new Date(gap.from).toLocaleString()} → ${new Date(gap.to).toLocaleTimeString()} (${formatDuration(gap.durationMs)})`));
+          });
+          return;
+        }
+        
+        if (options.failed) {
+          const { deadLetter, retrying, skipped } = progress.outcomes;
+          console.log(chalk.blue('🩺 Problem Files'));
+          console.log(chalk.cyan('─'.repeat(40)));
+          console.log(chalk.red(`☠️  Dead letter: ${deadLetter.length}`));
+          deadLetter.forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - ${file.attempts} attempts, last by ${file.lastAgentId}: ${file.lastError}`));
+          });
+          console.log(chalk.yellow(`❌ Retrying: ${retrying.length}`));
+          retrying.forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - attempt ${file.attempts}, last by ${file.lastAgentId}: ${file.lastError}`));
+          });
+          console.log(chalk.cyan(`⏭️  Skipped: ${skipped.length}`));
+          skipped.forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - ${file.reason} (${file.agentId})`));
+          });
           return;
         }
         
@@ -20,12 +73,67 @@ export function createProgressCommand() {
         console.log(chalk.cyan('─'.repeat(40)));
         console.log(chalk.green(`✓ Processed: ${progress.processedFiles}/${progress.totalFiles} files`));
         console.log(chalk.yellow(`📊 Completion: ${progress.completionPercentage}%`));
+        if (progress.skippedFiles + progress.deferredFiles + progress.retryingFiles + progress.deadLetterFiles > 0) {
+          console.log(chalk.yellow(`⚠️  Skipped: ${progress.skippedFiles}, deferred: ${progress.deferredFiles}, retrying: ${progress.retryingFiles}, dead letter: ${progress.deadLetterFiles} (see --failed)`));
+        }
         console.log(chalk.cyan(`💎 Total contexts: ${progress.contextStats.totalContexts}`));
+        if (progress.sessions.length > 1) {
+          console.log(chalk.cyan(`🗂️  Session: ${progress.session.name} (sessions: ${progress.sessions.join(', ')})`));
+        }
+        if (progress.session.includePatterns.length > 0) {
+          console.log(chalk.cyan(`🎯 Scope: ${progress.session.includePatterns.join(', ')}`));
+        }
         console.log(chalk.cyan(`🔢 Total tokens: ${progress.contextStats.totalTokens.toLocaleString()}`));
         
-        if (progress.estimatedTimeRemaining) {
-          const eta = new Date(progress.estimatedTimeRemaining);
-          console.log(chalk.magenta(`⏰ ETA: ${eta.toLocaleTimeString()}`));
+        if (progress.generatedFiles.files.length > 0) {
+          const { overview, excluded, files } = progress.generatedFiles;
+          console.log(chalk.cyan(`🤖 Generated/vendored: ${overview} summarized automatically, ${excluded} excluded`));
+          files.slice(0, 10).forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - ${file.kind}: ${file.reason} (${file.action})`));
+          });
+          if (files.length > 10) {
+            console.log(chalk.gray(`   ... and ${files.length - 10} more (use --json for the full list)`));
+          }
+        }
+        
+        if (progress.undecodableFiles.length > 0) {
+          console.log(chalk.yellow(`⚠️  Could not decode: ${progress.undecodableFiles.length} files`));
+          progress.undecodableFiles.slice(0, 10).forEach(file => {
+            console.log(chalk.gray(`   ${file.relativePath} - ${file.reason}`));
+          });
+          if (progress.undecodableFiles.length > 10) {
+            console.log(chalk.gray(`   ... and ${progress.undecodableFiles.length - 10} more (use --json for the full list)`));
+          }
+        }
+        
+        if (progress.centrality) {
+          console.log(chalk.cyan(`🕸️  Queue ordered by import centrality (${progress.centrality.algorithm}, ${progress.centrality.files} files)`));
+        }
+        
+        if (progress.dependencyOrder) {
+          console.log(chalk.cyan(`🧱 Queue ordered by dependencies (${progress.dependencyOrder.levels} levels, ${progress.dependencyOrder.cycles.length} import cycles)`));
+        }
+        
+        if (progress.rescan) {
+          console.log(chalk.cyan(`🔄 Rescan: ${progress.rescan.added} added, ${progress.rescan.modified} modified, ${progress.rescan.deleted} deleted since the session was saved`));
+        }
+        
+        if (progress.survey) {
+          const directories = progress.survey.directories ? `, ${progress.survey.directories.covered}/${progress.survey.directories.total} directories covered` : '';
+          console.log(chalk.cyan(`🔭 Survey: ${progress.survey.completed}/${progress.survey.selected} overview contexts stored${directories}`));
+        }
+        
+        if (progress.agents.length > 0) {
+          console.log(chalk.cyan(`🤝 Agents: ${progress.agents.length}`));
+          progress.agents.forEach(agent => {
+            console.log(chalk.gray(`   ${agent.agentId}: ${agent.completed} completed (${agent.filesPerHour} files/hour), ${agent.inFlight.length} in flight`));
+            agent.inFlight.forEach(file => console.log(chalk.gray(`      ↳ ${file}`)));
+          });
+        }
+        
+        if (progress.estimatedCompletionTime && progress.estimatedTimeRemaining) {
+          const eta = new Date(progress.estimatedCompletionTime);
+          console.log(chalk.magenta(`⏰ ETA: ${eta.toLocaleTimeString()} (about ${formatDuration(progress.estimatedTimeRemaining)})`));
         }
         
         if (progress.completionPercentage === 100) {
@@ -37,4 +145,12 @@ export function createProgressCommand() {
         process.exit(1);
       }
     });
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
 }
\ No newline at end of file
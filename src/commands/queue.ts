@@ -0,0 +1,108 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { CrystallizerCore } from '../shared/crystallizer-core.js';
+
+export function createQueueCommand() {
+  const command = new Command('queue')
+    .description('Inspect and reorder the remaining crystallization work');
+
+  command.addCommand(new Command('list')
+    .description('List remaining files in the order they will be handed out')
+    .option('-l, --limit <count>', 'Maximum queued files to list', '50')
+    .option('-j, --json', 'Output as JSON')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (options) => {
+      try {
+        const core = new CrystallizerCore(options.session);
+        const queue = await core.getCrystallizationQueue(parseInt(options.limit));
+
+        if (options.json) {
+          console.log(JSON.stringify(queue, null, 2));
+          return;
+        }
+
+        console.log(chalk.blue(`📋 ${queue.queued} queued, ${queue.inFlight} claimed`));
+        queue.claimed.forEach(file => {
+          console.log(chalk.gray(`   ⏳ ${file.file} (${file.agentId ?? 'claim lapsed'})`));
+        });
+        queue.files.forEach((file, index) => {
+          const flags = [
+            file.pinned ? '📌' : '',
+            file.reanalyze ? 're-analysis' : '',
+            file.dependencyLevel !== undefined ? `level ${file.dependencyLevel}` : '',
+          ].filter(Boolean).join(', ');
+          console.log(`${chalk.gray(`${String(index + 1).padStart(4)}.`)} ${file.file} ${chalk.gray(`priority ${file.priority}${flags ? `, ${flags}` : ''}`)}`);
+        });
+        if (queue.queued > queue.files.length) {
+          console.log(chalk.gray(`   ... and ${queue.queued - queue.files.length} more (use --limit to see more)`));
+        }
+      } catch (error) {
+        console.error(chalk.red('❌ Failed to list queue:'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    }));
+
+  command.addCommand(new Command('pin')
+    .description('Move queued files to the front of the queue')
+    .argument('<patterns...>', 'File paths, directories or globs (relative to the repository)')
+    .option('-u, --unpin', 'Remove the pin instead')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (patterns, options) => {
+      await runEdit('pin files', options.session, async core => {
+        const result = await core.pinFiles(patterns, !options.unpin);
+        return [`${result.pinned ? 'Pinned' : 'Unpinned'} ${result.files.length} files`, result.files];
+      });
+    }));
+
+  command.addCommand(new Command('priority')
+    .description('Raise or lower the priority of queued files')
+    .argument('<patterns...>', 'File paths, directories or globs (relative to the repository)')
+    .requiredOption('-b, --by <delta>', 'Priority change, e.g. 20 or -20 (priorities range from 0 to 100)')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (patterns, options) => {
+      await runEdit('change priorities', options.session, async core => {
+        const result = await core.adjustQueuePriority(patterns, parseInt(options.by));
+        return [`Changed the priority of ${result.files.length} files by ${result.delta}`, result.files];
+      });
+    }));
+
+  command.addCommand(new Command('requeue')
+    .description('Queue processed, skipped or dead-lettered files again for re-analysis')
+    .argument('<patterns...>', 'File paths, directories or globs (relative to the repository)')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (patterns, options) => {
+      await runEdit('requeue files', options.session, async core => {
+        const result = await core.requeueFiles(patterns);
+        return [`Requeued ${result.files.length} files`, result.files];
+      });
+    }));
+
+  command.addCommand(new Command('remove')
+    .description('Take queued files out of the session')
+    .argument('<patterns...>', 'File paths, directories or globs (relative to the repository)')
+    .option('--session <name>', 'Named session to use (default: "default")')
+    .action(async (patterns, options) => {
+      await runEdit('remove files', options.session, async core => {
+        const result = await core.removeQueuedFiles(patterns);
+        return [`Removed ${result.files.length} files from the session`, result.files];
+      });
+    }));
+
+  return command;
+}
+
+async function runEdit(action: string, session: string | undefined, edit: (core: CrystallizerCore) => Promise<[string, string[]]>): Promise<void> {
+  try {
+    const [summary, files] = await edit(new CrystallizerCore(session));
+    console.log(files.length > 0 ? chalk.green(`✓ ${summary}`) : chalk.yellow('⚠️  No matching files needed a change'));
+    files.slice(0, 20).forEach(file => console.log(chalk.gray(`   ${file}`)));
+    if (files.length > 20) {
+      console.log(chalk.gray(`   ... and ${files.length - 20} more`));
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ Failed to ${action}:`));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -8,6 +8,7 @@ export function createSearchCommand() {
     .argument('<query>', 'Search query (e.g., "authentication middleware")')
     .option('-t, --max-tokens <number>', 'Maximum tokens to return', '4000')
     .option('-c, --category <category>', 'Filter by category (config, source, test, docs, other)')
+    .option('-p, --package <path>', 'Filter by workspace package root (e.g., packages/billing)')
     .option('-j, --json', 'Output as JSON')
     .action(async (query: string, options) => {
       try {
@@ -15,7 +16,8 @@ export function createSearchCommand() {
         const results = await core.searchCrystallizedContexts(
           query, 
           parseInt(options.maxTokens), 
-          options.category
+          options.category,
+          options.package
         );
         
         if (options.json) {
@@ -36,7 +38,7 @@ export function createSearchCommand() {
         
         results.matches.forEach((match, index) => {
           console.log(chalk.bold(`${index + 1}. ${match.file}`));
-          console.log(chalk.gray(`   Category: ${match.category} | Complexity: ${match.complexity} | Relevance: ${(match.relevance * 100).toFixed(1)}%`));
+          console.log(chalk.gray(`   Category: ${match.category} | Complexity: ${match.complexity} | Relevance: ${(match.relevance * 100).toFixed(1)}%${match.package ? ` | Package: ${match.package}` : ''}`));
           console.log(chalk.white(`   ${match.purpose}`));
           if (match.keyTerms.length > 0) {
             console.log(chalk.blue(`   Terms: ${match.keyTerms.join(', ')}`));
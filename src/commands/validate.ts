@@ -24,6 +24,12 @@ export function createValidateCommand() {
           
           // Display the quality report in a user-friendly format
           console.log(chalk.green('✓ Quality metrics generated'));
+          if ('hotspots' in validation && validation.hotspots.length > 0) {
+            console.log(chalk.red(`🔥 Hotspots (high complexity + high churn): ${validation.hotspots.length}`));
+            validation.hotspots.slice(0, 10).forEach(hotspot => {
+              console.log(chalk.gray(`   ${hotspot.relativePath} - ${hotspot.commits} commits, ${hotspot.authors} authors, quality ${hotspot.qualityScore}`));
+            });
+          }
           console.log(chalk.yellow('💡 Check the full JSON output with --json for detailed metrics'));
         } else if (validation.type === 'context_validation') {
           console.log(chalk.blue(`🔍 Validation for: ${filePath || 'unknown'}`));
@@ -61,6 +61,8 @@ export class ChangeDetector {
 
     // Check for added or modified files
     for (const file of currentFiles) {
+      // Chunked files contribute one queue item per chunk; hash each file once
+      if (processedPaths.has(file.path)) continue;
       processedPaths.add(file.path);
       
       const hash = await this.calculateFileHash(file.path);
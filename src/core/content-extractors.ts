@@ -0,0 +1,295 @@
+import path from 'path';
+
+export interface ContentExtractor {
+  name: string;
+  // sample is the beginning of the file; matching must be cheap because it runs during the scan
+  matches(relativePath: string, sample: string, size: number): boolean;
+  extract(content: string, relativePath: string): string;
+}
+
+// Parsed OpenAPI objects; every field is narrowed before use because specs are hand-written
+type SpecNode = Record<string, unknown>;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const MAX_STRING_LENGTH = 120;
+const OPENAPI_JSON_SIGNATURE = /^\s*\{[\s\S]{0,200}"(?:openapi|swagger)"\s*:/;
+const JSON_FIXTURE_MIN_BYTES = 100 * 1024;
+const JSON_SAMPLE_ITEMS = 2;
+const JSON_MAX_DEPTH = 6;
+const MATCH_SAMPLE_BYTES = 8192;
+
+// Jupyter notebooks become ordered percent-format cells ("# %% [markdown]") without outputs
+export const notebookExtractor: ContentExtractor = {
+  name: 'notebook',
+  matches: relativePath => path.extname(relativePath).toLowerCase() === '.ipynb',
+  extract: content => {
+    const notebook = JSON.parse(content);
+    const language = notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || 'python';
+    const cells: Array<{ cell_type: string; source: string | string[]; outputs?: unknown[] }> = notebook.cells
+      // nbformat 3 nests cells inside worksheets
+      ?? (notebook.worksheets || []).flatMap((worksheet: { cells?: unknown[] }) => worksheet.cells || []);
+
+    const parts = [`# Jupyter notebook (${language}, ${cells.length} cells, outputs omitted)`];
+    cells.forEach((cell, index) => {
+      const source = Array.isArray(cell.source) ? cell.source.join('') : cell.source || '';
+      const outputNote = cell.outputs?.length ? ` (${cell.outputs.length} outputs omitted)` : '';
+      if (cell.cell_type === 'markdown') {
+        const commented = source.split('\n').map(line => (line ? `# ${line}` : '#')).join('\n');
+        parts.push(`# %% [markdown] cell ${index + 1}\n${commented}`);
+      } else {
+        parts.push(`# %% [${cell.cell_type}] cell ${index + 1}${outputNote}\n${source}`);
+      }
+    });
+
+    return parts.join('\n\n');
+  },
+};
+
+// OpenAPI/Swagger specs are reduced to their operations and schema shapes
+export const openApiExtractor: ContentExtractor = {
+  name: 'openapi',
+  matches: (relativePath, sample) => {
+    const ext = path.extname(relativePath).toLowerCase();
+    if (ext === '.json') return OPENAPI_JSON_SIGNATURE.test(sample);
+    if (ext === '.yaml' || ext === '.yml') return /^(?:openapi|swagger)\s*:/m.test(sample);
+    return false;
+  },
+  extract: (content, relativePath) => {
+    const ext = path.extname(relativePath).toLowerCase();
+    return ext === '.json' ? summarizeOpenApiJson(JSON.parse(content)) : projectOpenApiYaml(content);
+  },
+};
+
+// SQL dumps keep their DDL; row data is replaced with per-table counts
+export const sqlDumpExtractor: ContentExtractor = {
+  name: 'sql-dump',
+  matches: (relativePath, sample) => path.extname(relativePath).toLowerCase() === '.sql'
+    && (/(?:MySQL|PostgreSQL database|MariaDB|SQLite) dump/i.test(sample) || (sample.match(/^INSERT INTO/gim) || []).length >= 5),
+  extract: content => {
+    const output: string[] = [];
+    // Assigned inside flush(), so widen explicitly to keep control-flow narrowing from pinning it to null
+    let pending = null as { table: string; rows: number; kind: string } | null;
+    let inCopy = false;
+
+    const flush = () => {
+      if (pending) {
+        output.push(`-- [${pending.rows} ${pending.kind} row${pending.rows === 1 ? '' : 's'} for ${pending.table} omitted]`);
+        pending = null;
+      }
+    };
+
+    for (const line of content.split('\n')) {
+      if (inCopy) {
+        if (line === '\\.') {
+          inCopy = false;
+        } else if (pending) {
+          pending.rows++;
+        }
+        continue;
+      }
+
+      const copy = line.match(/^COPY\s+(\S+)/i);
+      const insert = line.match(/^INSERT\s+INTO\s+(\S+)/i);
+      if (copy) {
+        flush();
+        pending = { table: copy[1], rows: 0, kind: 'COPY' };
+        inCopy = true;
+      } else if (insert) {
+        const table = insert[1].replace(/\($/, '');
+        if (pending?.table !== table) {
+          flush();
+          pending = { table, rows: 0, kind: 'INSERT' };
+        }
+        // Multi-row inserts: "VALUES (...),(...)" count once per tuple
+        pending.rows += Math.max(1, (line.match(/\),\s*\(/g) || []).length + 1);
+      } else if (pending && /^\s*\(.*\)[,;]\s*$/.test(line)) {
+        // Continuation tuples of a multi-line INSERT
+        pending.rows++;
+      } else {
+        flush();
+        output.push(line);
+      }
+    }
+    flush();
+
+    return output.join('\n').replace(/\n{3,}/g, '\n\n');
+  },
+};
+
+// Large JSON fixtures are reduced to their shape: a few sample items per array, shortened strings
+export const jsonFixtureExtractor: ContentExtractor = {
+  name: 'json-fixture',
+  matches: (relativePath, sample, size) => path.extname(relativePath).toLowerCase() === '.json'
+    && size >= JSON_FIXTURE_MIN_BYTES && !OPENAPI_JSON_SIGNATURE.test(sample),
+  extract: content => JSON.stringify(summarizeJsonValue(JSON.parse(content), 0), null, 2),
+};
+
+export class ContentExtractorRegistry {
+  private extractors: ContentExtractor[];
+
+  constructor(extractors: ContentExtractor[] = [notebookExtractor, openApiExtractor, sqlDumpExtractor, jsonFixtureExtractor]) {
+    this.extractors = [...extractors];
+  }
+
+  // Registered extractors are consulted before the built-ins
+  register(extractor: ContentExtractor): void {
+    this.extractors.unshift(extractor);
+  }
+
+  find(relativePath: string, sample: string, size: number): ContentExtractor | undefined {
+    return this.extractors.find(extractor => extractor.matches(relativePath, sample, size));
+  }
+
+  // Falls back to the raw content when no extractor applies or extraction fails (e.g. malformed JSON)
+  extract(relativePath: string, content: string): string {
+    const extractor = this.find(relativePath, content.substring(0, MATCH_SAMPLE_BYTES), Buffer.byteLength(content, 'utf-8'));
+    if (!extractor) return content;
+
+    try {
+      return extractor.extract(content, relativePath);
+    } catch (_error) {
+      return content;
+    }
+  }
+}
+
+function summarizeOpenApiJson(document: unknown): string {
+  const spec = asNode(document);
+  const lines: string[] = [];
+  const info = asNode(spec.info);
+  const version = asText(info.version);
+  lines.push(`# ${spec.openapi ? `OpenAPI ${asText(spec.openapi)}` : `Swagger ${asText(spec.swagger)}`}: ${asText(info.title) || 'untitled'}${version ? ` (v${version})` : ''}`);
+  if (info.description) lines.push(truncate(String(info.description)));
+
+  const servers = asNodes(spec.servers).map(server => asText(server.url)).filter(Boolean);
+  if (spec.host) servers.push(`${asText(spec.host)}${asText(spec.basePath)}`);
+  if (servers.length > 0) lines.push(`Servers: ${servers.join(', ')}`);
+
+  lines.push('', '## Operations');
+  for (const [route, pathItem] of Object.entries(asNode(spec.paths))) {
+    const operations = asNode(pathItem);
+    for (const method of HTTP_METHODS) {
+      const operation = operations[method];
+      if (!isSpecNode(operation)) continue;
+
+      const params = [...asNodes(operations.parameters), ...asNodes(operation.parameters)]
+        .map(param => (typeof param.$ref === 'string' ? refName(param.$ref) : `${asText(param.name)}${param.in ? ` (${asText(param.in)})` : ''}`));
+      const body = Object.values(asNode(asNode(operation.requestBody).content))
+        .map(media => schemaLabel(asNode(media).schema))
+        .filter(Boolean);
+      const responses = Object.entries(asNode(operation.responses))
+        .map(([status, value]) => {
+          const response = asNode(value);
+          const schema = response.schema || asNode(Object.values(asNode(response.content))[0]).schema;
+          return schema ? `${status} ${schemaLabel(schema)}` : status;
+        });
+      const operationId = asText(operation.operationId);
+      const summary = asText(operation.summary);
+
+      lines.push(`- ${method.toUpperCase()} ${route}${operationId ? ` [${operationId}]` : ''}${summary ? ` - ${truncate(summary)}` : ''}`);
+      if (params.length > 0) lines.push(`  params: ${params.join(', ')}`);
+      if (body.length > 0) lines.push(`  body: ${body.join(' | ')}`);
+      if (responses.length > 0) lines.push(`  responses: ${responses.join(', ')}`);
+    }
+  }
+
+  const schemas = asNode(asNode(spec.components).schemas || spec.definitions);
+  if (Object.keys(schemas).length > 0) {
+    lines.push('', '## Schemas');
+    for (const [name, value] of Object.entries(schemas)) {
+      const schema = asNode(value);
+      const required = Array.isArray(schema.required) ? schema.required : [];
+      const properties = Object.entries(asNode(schema.properties))
+        .map(([prop, propSchema]) => `${prop}${required.includes(prop) ? '*' : ''}: ${schemaLabel(propSchema)}`);
+      lines.push(`- ${name}${properties.length > 0 ? ` { ${properties.join(', ')} }` : ` (${schemaLabel(schema)})`}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function schemaLabel(schema: unknown): string {
+  if (!isSpecNode(schema)) return '';
+  if (typeof schema.$ref === 'string') return refName(schema.$ref);
+  if (schema.type === 'array') return `${schemaLabel(schema.items)}[]`;
+  if (Array.isArray(schema.enum)) return `enum(${schema.enum.slice(0, 5).join('|')}${schema.enum.length > 5 ? '|...' : ''})`;
+  for (const combinator of ['oneOf', 'anyOf', 'allOf']) {
+    const variants = schema[combinator];
+    if (Array.isArray(variants)) {
+      return `${combinator}(${variants.map(schemaLabel).join(', ')})`;
+    }
+  }
+  const type = asText(schema.type);
+  return schema.format ? `${type}(${asText(schema.format)})` : type || 'object';
+}
+
+function isSpecNode(value: unknown): value is SpecNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asNode(value: unknown): SpecNode {
+  return isSpecNode(value) ? value : {};
+}
+
+function asNodes(value: unknown): SpecNode[] {
+  return Array.isArray(value) ? value.filter(isSpecNode) : [];
+}
+
+// Versions are sometimes written as bare JSON numbers
+function asText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+function refName(ref: string): string {
+  return ref.split('/').pop() || ref;
+}
+
+// Line-based projection for YAML specs: drops examples and vendor extensions, shortens long descriptions
+function projectOpenApiYaml(content: string): string {
+  const output: string[] = [];
+  let skipIndent: number | null = null;
+
+  for (const line of content.split('\n')) {
+    const indent = line.length - line.trimStart().length;
+    if (skipIndent !== null) {
+      if (!line.trim() || indent > skipIndent) continue;
+      skipIndent = null;
+    }
+
+    const key = line.trim().match(/^-?\s*([\w$-]+)\s*:/)?.[1];
+    if (key && (key === 'example' || key === 'examples' || key.startsWith('x-'))) {
+      skipIndent = indent;
+      continue;
+    }
+    if (key === 'description' && /:\s*[|>]/.test(line)) {
+      // Block scalar descriptions are collapsed into a single marker line
+      output.push(`${line.replace(/:\s*[|>][-+]?\s*$/, ':')} ...`);
+      skipIndent = indent;
+      continue;
+    }
+
+    output.push(line.length > MAX_STRING_LENGTH + indent ? `${line.substring(0, MAX_STRING_LENGTH + indent)}...` : line);
+  }
+
+  return output.join('\n');
+}
+
+function summarizeJsonValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') return truncate(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= JSON_MAX_DEPTH) return Array.isArray(value) ? `[array of ${value.length}]` : '{...}';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, JSON_SAMPLE_ITEMS).map(item => summarizeJsonValue(item, depth + 1));
+    if (value.length > JSON_SAMPLE_ITEMS) {
+      items.push(`... ${value.length - JSON_SAMPLE_ITEMS} more items`);
+    }
+    return items;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeJsonValue(item, depth + 1)]));
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_STRING_LENGTH ? `${text.substring(0, MAX_STRING_LENGTH)}...` : text;
+}
\ No newline at end of file
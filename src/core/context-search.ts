@@ -12,7 +12,7 @@ export class ContextSearch {
     this.contextBasePath = path.join(this.repoPath, '.context-crystallizer');
   }
 
-  async searchContexts(query: string, maxTokens: number = 4000, category?: string): Promise<SearchResult[]> {
+  async searchContexts(query: string, maxTokens: number = 4000, category?: string, packagePath?: string): Promise<SearchResult[]> {
     const metadataDir = path.join(this.contextBasePath, 'ai-metadata');
     
     try {
@@ -28,6 +28,9 @@ export class ContextSearch {
         // Filter by category if specified
         if (category && metadata.category !== category) continue;
         
+        // Filter by workspace package if specified
+        if (packagePath && metadata.package !== packagePath) continue;
+        
         // Calculate relevance score
         const relevanceScore = this.calculateRelevance(query, metadata);
         
@@ -35,6 +38,7 @@ export class ContextSearch {
           // Load full context
           const context = await this.loadContext(metadata.relativePath);
           if (context) {
+            context.package = context.package || metadata.package;
             const highlights = this.extractHighlights(query, context);
             results.push({
               context,
@@ -55,12 +59,13 @@ export class ContextSearch {
     }
   }
 
-  async getContextBundle(files: string[], maxTokens: number = 8000): Promise<ContextBundle> {
+  async getContextBundle(files: string[], maxTokens: number = 8000, packagePath?: string): Promise<ContextBundle> {
     const contexts: CrystallizedContext[] = [];
     let totalTokens = 0;
     
     for (const file of files) {
       const context = await this.loadContext(file);
+      if (context && packagePath && !this.isInPackage(context, packagePath)) continue;
       if (context && context.tokenCount) {
         if (totalTokens + context.tokenCount <= maxTokens) {
           contexts.push(context);
@@ -136,6 +141,14 @@ export class ContextSearch {
     }
   }
 
+  private isInPackage(context: CrystallizedContext, packagePath: string): boolean {
+    if (context.package) {
+      return context.package === packagePath;
+    }
+    // Contexts written by older output templates carry no package marker; fall back to the path prefix
+    return context.relativePath === packagePath || context.relativePath.startsWith(`${packagePath}/`);
+  }
+
   private calculateRelevance(query: string, metadata: any): number {
     const queryLower = query.toLowerCase();
     const queryTerms = queryLower.split(/\s+/).filter(term => term.length > 2);
@@ -314,6 +327,8 @@ export class ContextSearch {
     const categoryMatch = markdown.match(/<!-- Category: (\w+) -->/);
     const complexityMatch = markdown.match(/<!-- Complexity: (\w+) -->/);
     const tokenMatch = markdown.match(/<!-- Tokens: (\d+) -->/);
+    const packageMatch = markdown.match(/<!-- Package: (\S+) -->/);
+    const languageMatch = markdown.match(/<!-- Language: (\S+) -->/);
     
     const context: CrystallizedContext = {
       filePath: relativePath, // Store only relative paths for portability
@@ -329,6 +344,8 @@ export class ContextSearch {
       category: (categoryMatch?.[1] as 'config' | 'source' | 'test' | 'docs' | 'other') || 'other',
       crossReferences: [],
       tokenCount: tokenMatch ? parseInt(tokenMatch[1]) : undefined,
+      package: packageMatch?.[1],
+      language: languageMatch?.[1],
     };
     
     // Parse sections
@@ -2,28 +2,46 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import pLimit from 'p-limit';
 import filenamify from 'filenamify';
-import { CrystallizedContext } from '../types/index.js';
+import { CrossReference, CrystallizedContext, FileChunk, FileQueueItem, GitChurn, WorkspacePackage } from '../types/index.js';
 import { TemplateManager } from './template-manager.js';
 import { CrossReferenceAnalyzer } from './cross-reference-analyzer.js';
+import { WorkspaceDetector } from './workspace-detector.js';
+import { LanguageDetector } from './language-detector.js';
+import { TextEncodingDetector } from './text-encoding.js';
+import { GitHistory } from './git-history.js';
 import { TokenCounter } from '../utils/token-counter.js';
+import { FileLock } from '../utils/file-lock.js';
+
+interface StoredFileMetadata {
+  category: 'config' | 'source' | 'test' | 'docs' | 'other';
+  estimatedTokens: number;
+  language?: string;
+  encoding?: string;
+  churn?: GitChurn;
+}
 
 export class ContextStorage {
   private repoPath: string;
   private contextBasePath: string;
   private templateManager: TemplateManager;
   private allFiles: string[] = [];
+  private knownFiles = new Set<string>();
+  private workspacePackages: WorkspacePackage[] = [];
   
   // Concurrent index operation support
   private indexMutex = pLimit(1); // Mutex: only 1 agent can update index at a time
+  private indexLock: FileLock; // Same for MCP servers in other processes
+  private deferredIndexDepth = 0;
 
   constructor(repoPath: string) {
     this.repoPath = path.resolve(repoPath);
     this.contextBasePath = path.join(this.repoPath, '.context-crystallizer');
     this.templateManager = new TemplateManager();
+    this.indexLock = new FileLock(path.join(this.contextBasePath, 'ai-index.md'));
   }
 
-  async initialize(allFiles: string[]): Promise<void> {
-    this.allFiles = allFiles;
+  async initialize(allFiles: string[], workspacePackages: WorkspacePackage[] = []): Promise<void> {
+    this.updateRepositoryFiles(allFiles, workspacePackages);
     await fs.mkdir(this.contextBasePath, { recursive: true });
     await fs.mkdir(path.join(this.contextBasePath, 'context'), { recursive: true });
     await fs.mkdir(path.join(this.contextBasePath, 'ai-metadata'), { recursive: true });
@@ -33,12 +51,92 @@ export class ContextStorage {
     await this.templateManager.loadTemplatesFromFiles(templatesDir);
   }
 
+  // Called again once a background scan has discovered every file
+  updateRepositoryFiles(allFiles: string[], workspacePackages: WorkspacePackage[]): void {
+    this.allFiles = allFiles;
+    this.knownFiles = new Set(allFiles);
+    this.workspacePackages = workspacePackages;
+  }
+
+  // Grows the file list batch by batch while a background scan runs, so contexts stored meanwhile
+  // already resolve references to the files discovered so far
+  addRepositoryFiles(files: string[], workspacePackages: WorkspacePackage[]): void {
+    for (const file of files) {
+      if (this.knownFiles.has(file)) continue;
+      this.knownFiles.add(file);
+      this.allFiles.push(file);
+    }
+    this.workspacePackages = workspacePackages;
+  }
+
+  // Returns the template validation errors; contexts that fail validation are still stored
   async storeContext(
     filePath: string, 
     context: Partial<CrystallizedContext>,
     fileContent?: string,
-    fileMetadata?: { category: 'config' | 'source' | 'test' | 'docs' | 'other'; estimatedTokens: number }
-  ): Promise<void> {
+    fileMetadata?: StoredFileMetadata
+  ): Promise<string[]> {
+    const { context: fullContext, validationErrors } = await this.writeContext(filePath, context, fileContent, fileMetadata);
+    
+    // Update index
+    await this.updateIndex(fullContext);
+    return validationErrors;
+  }
+
+  // Batch stores rebuild the index once at the end instead of after every context
+  async withDeferredIndex<T>(fn: () => Promise<T>): Promise<T> {
+    this.deferredIndexDepth++;
+    try {
+      return await fn();
+    } finally {
+      this.deferredIndexDepth--;
+      if (this.deferredIndexDepth === 0) {
+        await this.indexMutex(() => this.indexLock.withLock(() => this.regenerateFullIndex()));
+      }
+    }
+  }
+
+  // Writes a cheap overview for generated/vendored files without agent involvement; the index is rebuilt once
+  async storeGeneratedContexts(files: FileQueueItem[]): Promise<number> {
+    let written = 0;
+    
+    for (const file of files) {
+      if (!file.generated) continue;
+      
+      try {
+        const contextStats = await fs.stat(this.getContextPath(file.relativePath));
+        if (contextStats.mtime >= file.lastModified) continue;
+      } catch (_error) {
+        // No context yet
+      }
+      
+      const { kind, reason } = file.generated;
+      const advice = kind === 'vendored'
+        ? 'Update the vendored dependency upstream instead of editing this copy.'
+        : 'Change the generator or its inputs instead of editing this file.';
+      
+      await this.writeContext(file.relativePath, {
+        purpose: `${kind === 'vendored' ? 'Vendored third-party' : 'Generated'} file (${reason}), summarized automatically without agent analysis. ${advice}`,
+        keyTerms: [path.basename(file.relativePath), kind],
+        // The overview template's token budget is too small to hold the metadata header and this purpose
+        template: 'standard',
+        complexity: 'low',
+      }, undefined, { category: file.category, estimatedTokens: file.estimatedTokens, language: file.language, encoding: file.encoding, churn: file.churn });
+      written++;
+    }
+    
+    if (written > 0) {
+      await this.indexMutex(() => this.indexLock.withLock(() => this.regenerateFullIndex()));
+    }
+    return written;
+  }
+
+  private async writeContext(
+    filePath: string, 
+    context: Partial<CrystallizedContext>,
+    fileContent?: string,
+    fileMetadata?: StoredFileMetadata
+  ): Promise<{ context: CrystallizedContext; validationErrors: string[] }> {
     // Ensure we always work with relative paths for portability
     const relativePath = path.isAbsolute(filePath) 
       ? path.relative(this.repoPath, filePath)
@@ -53,10 +151,16 @@ export class ContextStorage {
       fileMetadata?.estimatedTokens || 1000
     );
 
+    // Prefer the scanner's language; otherwise detect it from the content (or the file on disk)
+    const language = fileMetadata?.language
+      ?? (fileContent ? LanguageDetector.detect(relativePath, fileContent) : await LanguageDetector.detectFile(absoluteFilePath, relativePath));
+    
+    const encoding = fileMetadata?.encoding ?? await TextEncodingDetector.detectFile(absoluteFilePath);
+    
     // Analyze cross-references if file content is provided
     let crossReferences = context.crossReferences || [];
     if (fileContent && this.allFiles.length > 0) {
-      crossReferences = CrossReferenceAnalyzer.analyzeFileReferences(absoluteFilePath, fileContent, this.allFiles);
+      crossReferences = CrossReferenceAnalyzer.analyzeFileReferences(absoluteFilePath, fileContent, this.allFiles, language);
     }
     
     const fullContext: CrystallizedContext = {
@@ -75,6 +179,11 @@ export class ContextStorage {
       aiGuidance: context.aiGuidance,
       errorHandling: context.errorHandling,
       integrationPoints: context.integrationPoints,
+      package: WorkspaceDetector.findOwningPackage(relativePath, this.workspacePackages)?.relativePath,
+      chunks: context.chunks,
+      language,
+      encoding,
+      churn: fileMetadata?.churn,
     };
     
     // Generate markdown with token placeholder
@@ -96,13 +205,98 @@ export class ContextStorage {
     await fs.mkdir(path.dirname(contextPath), { recursive: true });
     
     // Write context as markdown
-    await fs.writeFile(contextPath, finalMarkdown, 'utf-8');
+    await FileLock.writeAtomic(contextPath, finalMarkdown);
     
     // Store metadata
     await this.storeMetadata(fullContext);
     
-    // Update index
-    await this.updateIndex(fullContext);
+    return { context: fullContext, validationErrors: validation.isValid ? [] : validation.errors };
+  }
+
+  async storeChunkContext(
+    filePath: string,
+    chunk: FileChunk,
+    context: Partial<CrystallizedContext>,
+    chunkContent?: string,
+    fileMetadata?: StoredFileMetadata
+  ): Promise<string[]> {
+    const relativePath = path.isAbsolute(filePath)
+      ? path.relative(this.repoPath, filePath)
+      : filePath;
+    const absoluteFilePath = path.isAbsolute(filePath) ? filePath : path.join(this.repoPath, filePath);
+    const chunkDir = path.join(this.contextBasePath, 'chunks', relativePath);
+
+    // Cross-references are analyzed per chunk since no single request carries the whole file;
+    // the language comes from the whole file because later chunks have no shebang or modeline
+    const language = fileMetadata?.language ?? await LanguageDetector.detectFile(absoluteFilePath, relativePath);
+    let crossReferences = context.crossReferences || [];
+    if (chunkContent && this.allFiles.length > 0) {
+      crossReferences = CrossReferenceAnalyzer.analyzeFileReferences(absoluteFilePath, chunkContent, this.allFiles, language);
+    }
+
+    await fs.mkdir(chunkDir, { recursive: true });
+
+    // Agents in other processes may store sibling chunks at the same time; each merge must see the others' chunks
+    return new FileLock(chunkDir).withLock(async () => {
+      await FileLock.writeAtomic(
+        path.join(chunkDir, `${chunk.index}.json`),
+        JSON.stringify({ chunk, context: { ...context, crossReferences } }, null, 2)
+      );
+
+      // Rebuild the file-level context from every chunk stored so far
+      const storedChunks = await this.loadChunkContexts(chunkDir, chunk.total);
+      return this.storeContext(filePath, this.mergeChunkContexts(storedChunks), undefined, { category: 'other', estimatedTokens: 1000, ...fileMetadata, language });
+    });
+  }
+
+  private async loadChunkContexts(chunkDir: string, total: number): Promise<Array<{ chunk: FileChunk; context: Partial<CrystallizedContext> }>> {
+    const stored: Array<{ chunk: FileChunk; context: Partial<CrystallizedContext> }> = [];
+
+    for (let index = 1; index <= total; index++) {
+      try {
+        const content = await fs.readFile(path.join(chunkDir, `${index}.json`), 'utf-8');
+        const entry = JSON.parse(content);
+        // Chunks left over from an earlier split of the file are ignored
+        if (entry.chunk?.total === total) {
+          stored.push(entry);
+        }
+      } catch (_error) {
+        // Chunk not crystallized yet
+      }
+    }
+
+    return stored;
+  }
+
+  private mergeChunkContexts(stored: Array<{ chunk: FileChunk; context: Partial<CrystallizedContext> }>): Partial<CrystallizedContext> {
+    const unique = (values: Array<string[] | undefined>) => Array.from(new Set(values.flatMap(value => value || [])));
+    const complexityRank = { low: 0, medium: 1, high: 2 };
+
+    const crossReferences = new Map<string, CrossReference>();
+    for (const { context } of stored) {
+      for (const ref of context.crossReferences || []) {
+        crossReferences.set(`${ref.type}:${ref.target}`, ref);
+      }
+    }
+
+    const contexts = stored.map(entry => entry.context);
+    const complexity = contexts
+      .map(context => context.complexity || 'medium')
+      .reduce((max, current) => complexityRank[current] > complexityRank[max] ? current : max, 'low' as 'low' | 'medium' | 'high');
+
+    return {
+      purpose: contexts.map(context => context.purpose).filter(Boolean).join('\n\n'),
+      keyTerms: unique(contexts.map(context => context.keyTerms)),
+      dependencies: unique(contexts.map(context => context.dependencies)),
+      patterns: unique(contexts.map(context => context.patterns)),
+      relatedContexts: unique(contexts.map(context => context.relatedContexts)),
+      errorHandling: unique(contexts.map(context => context.errorHandling)),
+      integrationPoints: unique(contexts.map(context => context.integrationPoints)),
+      aiGuidance: contexts.map(context => context.aiGuidance).filter(Boolean).join('\n\n') || undefined,
+      complexity,
+      crossReferences: Array.from(crossReferences.values()),
+      chunks: stored.map(entry => entry.chunk),
+    };
   }
 
   async getContext(relativePath: string): Promise<CrystallizedContext | null> {
@@ -130,9 +324,14 @@ export class ContextStorage {
       crossReferences: context.crossReferences,
       keyTerms: context.keyTerms,
       dependencies: context.dependencies,
+      package: context.package,
+      language: context.language,
+      encoding: context.encoding,
+      churn: context.churn,
+      chunkCount: context.chunks?.[0]?.total,
     };
     
-    await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+    await FileLock.writeAtomic(metadataPath, JSON.stringify(metadata, null, 2));
   }
 
   private getContextPath(relativePath: string): string {
@@ -148,6 +347,8 @@ export class ContextStorage {
     const categoryMatch = markdown.match(/<!-- Category: (\w+) -->/);
     const complexityMatch = markdown.match(/<!-- Complexity: (\w+) -->/);
     const tokenMatch = markdown.match(/<!-- Tokens: (\d+) -->/);
+    const packageMatch = markdown.match(/<!-- Package: (\S+) -->/);
+    const languageMatch = markdown.match(/<!-- Language: (\S+) -->/);
     
     const context: CrystallizedContext = {
       filePath: relativePath, // Store only relative paths for portability
@@ -163,6 +364,8 @@ export class ContextStorage {
       category: (categoryMatch?.[1] as 'config' | 'source' | 'test' | 'docs' | 'other') || 'other',
       crossReferences: [],
       tokenCount: tokenMatch ? parseInt(tokenMatch[1]) : undefined,
+      package: packageMatch?.[1],
+      language: languageMatch?.[1],
     };
     
     const sections = markdown.split(/^## /m);
@@ -225,10 +428,12 @@ export class ContextStorage {
   }
 
   private async updateIndex(_context: CrystallizedContext): Promise<void> {
+    if (this.deferredIndexDepth > 0) return;
+    
     // Critical section: only one agent can update index at a time
     return this.indexMutex(async () => {
       // Regenerate the entire index for consistency
-      await this.regenerateFullIndex();
+      await this.indexLock.withLock(() => this.regenerateFullIndex());
     });
   }
 
@@ -255,6 +460,18 @@ export class ContextStorage {
         `# 🔍 AI Context Index | ${contexts.length} files | ${Math.round(totalTokens/1000)}K tokens`,
         '',
       ];
+      
+      // High complexity files that change often are listed first
+      const hotspots = contexts
+        .filter(ctx => GitHistory.isHotspot(ctx.complexity, ctx.churn))
+        .sort((a, b) => b.churn.score - a.churn.score);
+      if (hotspots.length > 0) {
+        lines.push(`## 🔥 Hotspots | ${hotspots.length} files`);
+        hotspots.slice(0, 10).forEach(ctx => {
+          lines.push(`🔥 [${ctx.relativePath}](./context/${ctx.relativePath}.context.md) ${ctx.churn.commits} commits, ${ctx.churn.authors} authors, last ${ctx.churn.lastCommitDate.slice(0, 10)}`);
+        });
+        lines.push('');
+      }
 
       // Sort contexts by priority: complexity (high->low) then by token count (high->low)
       const sortedContexts = contexts.sort((a, b) => {
@@ -264,44 +481,71 @@ export class ContextStorage {
         return (b.tokenCount || 0) - (a.tokenCount || 0);
       });
 
-      // Generate compact entries
+      // Group entries by workspace package when the repository is a monorepo
+      const groups = new Map<string, typeof sortedContexts>();
       sortedContexts.forEach(ctx => {
-        const complexityBadge = ctx.complexity === 'high' ? '🔴' : ctx.complexity === 'medium' ? '🟡' : '🟢';
-        const tokens = ctx.tokenCount ? `${ctx.tokenCount}t` : '0t';
-        
-        // Keep full file path for AI tools to open files correctly
-        const fullPath = ctx.relativePath;
-        
-        // Compress and abbreviate key terms (preserve searchability while saving tokens)
-        const compressedTerms = (ctx.keyTerms || [])
-          .slice(0, 8) // Limit to 8 most important terms
-          .map((term: string) => term
-            .replace(/authentication/g, 'auth')
-            .replace(/configuration/g, 'config')
-            .replace(/database/g, 'db')
-            .replace(/middleware/g, 'mw')
-            .replace(/management/g, 'mgmt')
-            .replace(/application/g, 'app')
-            .replace(/endpoint/g, 'ep')
-            .replace(/service/g, 'svc'))
-          .join(',');
-        
-        lines.push(`${complexityBadge} [${fullPath}](./context/${fullPath}.context.md) (${tokens}) ${compressedTerms}`);
+        const key = ctx.package || '';
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(ctx);
+      });
+      const hasPackages = groups.size > 1 || !groups.has('');
+      const groupKeys = Array.from(groups.keys()).sort((a, b) => {
+        // Root-level files (no package) come first
+        if (a === '') return -1;
+        if (b === '') return 1;
+        return a.localeCompare(b);
+      });
+
+      groupKeys.forEach(key => {
+        const groupContexts = groups.get(key)!;
+        if (hasPackages) {
+          lines.push(`## 📦 ${key || '(root)'} | ${groupContexts.length} files`);
+        }
+        groupContexts.forEach(ctx => lines.push(this.formatIndexEntry(ctx)));
+        if (hasPackages) {
+          lines.push('');
+        }
       });
       
       lines.push('---');
       lines.push(`*Generated: ${new Date().toISOString()}*`);
       
-      await fs.writeFile(indexPath, lines.join('\n'), 'utf-8');
+      await FileLock.writeAtomic(indexPath, lines.join('\n'));
     } catch (_error) {
       console.warn('Failed to regenerate index:', _error);
     }
   }
 
+  private formatIndexEntry(ctx: CrystallizedContext): string {
+    const complexityBadge = ctx.complexity === 'high' ? '🔴' : ctx.complexity === 'medium' ? '🟡' : '🟢';
+    const hotspotBadge = GitHistory.isHotspot(ctx.complexity, ctx.churn) ? '🔥' : '';
+    const tokens = ctx.tokenCount ? `${ctx.tokenCount}t` : '0t';
+    
+    // Keep full file path for AI tools to open files correctly
+    const fullPath = ctx.relativePath;
+    
+    // Compress and abbreviate key terms (preserve searchability while saving tokens)
+    const compressedTerms = (ctx.keyTerms || [])
+      .slice(0, 8) // Limit to 8 most important terms
+      .map((term: string) => term
+        .replace(/authentication/g, 'auth')
+        .replace(/configuration/g, 'config')
+        .replace(/database/g, 'db')
+        .replace(/middleware/g, 'mw')
+        .replace(/management/g, 'mgmt')
+        .replace(/application/g, 'app')
+        .replace(/endpoint/g, 'ep')
+        .replace(/service/g, 'svc'))
+      .join(',');
+    
+    return `${complexityBadge}${hotspotBadge} [${fullPath}](./context/${fullPath}.context.md) (${tokens}) ${compressedTerms}`;
+  }
+
   async getContextStatistics(): Promise<{
     totalContexts: number;
     byCategory: Record<string, number>;
     byTemplate: Record<string, number>;
+    byPackage: Record<string, number>;
     totalTokens: number;
     avgTokensPerContext: number;
   }> {
@@ -322,11 +566,15 @@ export class ContextStorage {
         
         const byCategory: Record<string, number> = {};
         const byTemplate: Record<string, number> = {};
+        const byPackage: Record<string, number> = {};
         let totalTokens = 0;
         
         contexts.forEach(ctx => {
           byCategory[ctx.category] = (byCategory[ctx.category] || 0) + 1;
           byTemplate[ctx.template] = (byTemplate[ctx.template] || 0) + 1;
+          if (ctx.package) {
+            byPackage[ctx.package] = (byPackage[ctx.package] || 0) + 1;
+          }
           totalTokens += ctx.tokenCount || 0;
         });
         
@@ -334,6 +582,7 @@ export class ContextStorage {
           totalContexts: contexts.length,
           byCategory,
           byTemplate,
+          byPackage,
           totalTokens,
           avgTokensPerContext: contexts.length > 0 ? totalTokens / contexts.length : 0,
         };
@@ -342,6 +591,7 @@ export class ContextStorage {
           totalContexts: 0,
           byCategory: {},
           byTemplate: {},
+          byPackage: {},
           totalTokens: 0,
           avgTokensPerContext: 0,
         };
@@ -81,10 +81,8 @@ export class ContextUpdater {
       // Add new files
       for (const change of changeResult.changes) {
         if (change.type === 'added') {
-          const fileItem = currentFiles.find(f => f.path === change.path);
-          if (fileItem) {
-            updateQueue.push(fileItem);
-          }
+          // Chunked files have one queue item per chunk
+          updateQueue.push(...currentFiles.filter(f => f.path === change.path));
         }
       }
 
@@ -92,10 +90,7 @@ export class ContextUpdater {
       if (!options.forceUpdate) {
         for (const change of changeResult.changes) {
           if (change.type === 'modified') {
-            const fileItem = currentFiles.find(f => f.path === change.path);
-            if (fileItem) {
-              updateQueue.push(fileItem);
-            }
+            updateQueue.push(...currentFiles.filter(f => f.path === change.path));
           }
         }
       } else {
@@ -106,26 +101,34 @@ export class ContextUpdater {
       // Add files without context if requested
       if (options.includeUnchanged) {
         for (const file of filesNeedingContext) {
-          if (!updateQueue.some(f => f.path === file.path)) {
+          if (!updateQueue.some(f => f.path === file.path && f.chunk?.index === file.chunk?.index)) {
             updateQueue.push(file);
           }
         }
       }
 
-      // Initialize queue for processing
-      await this.queueManager.initializeQueue(updateQueue, this.repoPath, []);
+      // Initialize queue for processing (generated/vendored files are summarized at init, never by agents).
+      // A running session is recovered and reconciled with the scan instead of being replaced by the update queue
+      const recovered = await this.queueManager.initializeQueue(updateQueue.filter(f => !f.generated), this.repoPath);
+      if (recovered) {
+        await this.queueManager.reconcileWithScan(currentFiles.filter(f => !f.generated));
+        if (options.forceUpdate) {
+          await this.queueManager.requeueFiles(updateQueue.filter(f => !f.generated));
+        }
+      }
 
       // Process queue (this would normally be done by AI agents)
       // For now, we'll just mark them as ready for processing
-      result.summary.contextsAdded = updateQueue.filter(f => 
-        changeResult.changes.some(c => c.path === f.path && c.type === 'added')
+      const queuedPaths = Array.from(new Set(updateQueue.map(f => f.path)));
+      result.summary.contextsAdded = queuedPaths.filter(filePath => 
+        changeResult.changes.some(c => c.path === filePath && c.type === 'added')
       ).length;
       
-      result.summary.contextsUpdated = updateQueue.filter(f => 
-        changeResult.changes.some(c => c.path === f.path && c.type === 'modified')
+      result.summary.contextsUpdated = queuedPaths.filter(filePath => 
+        changeResult.changes.some(c => c.path === filePath && c.type === 'modified')
       ).length;
 
-      result.updatedContexts = updateQueue.map(f => f.relativePath);
+      result.updatedContexts = Array.from(new Set(updateQueue.map(f => f.relativePath)));
 
       // Cleanup deleted files if requested
       if (options.cleanupDeleted) {
@@ -140,6 +143,9 @@ export class ContextUpdater {
       // Regenerate index after updates
       // Note: Index will be regenerated when contexts are actually stored
 
+      await this.queueManager.logEvent('update', {
+        details: { ...result.summary, forceUpdate: !!options.forceUpdate, files: result.updatedContexts.slice(0, 100) },
+      });
     } catch (_error) {
       result.errors.push({
         file: 'general',
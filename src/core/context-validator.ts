@@ -1,12 +1,26 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { CrystallizedContext, ValidationResult, ValidationIssue, QualityMetrics } from '../types/index.js';
+import { GitHistory } from './git-history.js';
+
+// Hotspot contexts below this quality score are called out in recommendations
+const HOTSPOT_MIN_QUALITY = 70;
+
+export interface HotspotReport {
+  relativePath: string;
+  churnScore: number;
+  commits: number;
+  authors: number;
+  lastCommitDate: string;
+  qualityScore: number;
+}
 
 export interface ProjectQualityReport {
   overallScore: number;
   totalContexts: number;
   categoryScores: Record<string, number>;
   commonIssues: { issue: string; count: number }[];
+  hotspots: HotspotReport[]; // High complexity + high churn, most churned first
   recommendations: string[];
   metrics: {
     avgTokensPerContext: number;
@@ -79,6 +93,7 @@ export class ContextValidator {
       const results: ValidationResult[] = [];
       const categoryScores: Record<string, number[]> = {};
       const issueFrequency: Record<string, number> = {};
+      const hotspots: HotspotReport[] = [];
       
       for (const file of metadataFiles) {
         if (!file.endsWith('.json')) continue;
@@ -98,6 +113,17 @@ export class ContextValidator {
           }
           categoryScores[context.category].push(result.score);
           
+          if (GitHistory.isHotspot(metadata.complexity, metadata.churn)) {
+            hotspots.push({
+              relativePath: metadata.relativePath,
+              churnScore: metadata.churn.score,
+              commits: metadata.churn.commits,
+              authors: metadata.churn.authors,
+              lastCommitDate: metadata.churn.lastCommitDate,
+              qualityScore: result.score,
+            });
+          }
+          
           // Track issue frequency
           result.issues.forEach(issue => {
             const key = `${issue.category}: ${issue.message}`;
@@ -135,12 +161,18 @@ export class ContextValidator {
 
       // Generate recommendations
       const recommendations = this.generateProjectRecommendations(results, commonIssues, overallScore);
+      hotspots.sort((a, b) => b.churnScore - a.churnScore);
+      const weakHotspots = hotspots.filter(hotspot => hotspot.qualityScore < HOTSPOT_MIN_QUALITY);
+      if (weakHotspots.length > 0) {
+        recommendations.unshift(`Improve contexts for ${weakHotspots.length} churn hotspot(s) first: ${weakHotspots.slice(0, 5).map(hotspot => hotspot.relativePath).join(', ')}`);
+      }
 
       return {
         overallScore,
         totalContexts: results.length,
         categoryScores: categoryAvgs,
         commonIssues,
+        hotspots,
         recommendations,
         metrics: {
           avgTokensPerContext: Math.round(avgTokens),
@@ -156,6 +188,7 @@ export class ContextValidator {
         totalContexts: 0,
         categoryScores: {},
         commonIssues: [],
+        hotspots: [],
         recommendations: ['Unable to generate report - check context storage'],
         metrics: {
           avgTokensPerContext: 0,
@@ -1,36 +1,42 @@
 import path from 'path';
 import { CrossReference } from '../types/index.js';
+import { LanguageDetector } from './language-detector.js';
+
+// TypeScript ESM code imports the emitted ".js" file name of a ".ts" source
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
 
 export class CrossReferenceAnalyzer {
+  // Lookup sets per file list, so resolving imports does not scan the whole list for every candidate
+  private static fileSets = new WeakMap<string[], Set<string>>();
   
-  static analyzeFileReferences(filePath: string, content: string, allFiles: string[]): CrossReference[] {
+  static analyzeFileReferences(filePath: string, content: string, allFiles: string[], language?: string): CrossReference[] {
     const references: CrossReference[] = [];
-    const ext = path.extname(filePath).toLowerCase();
     
-    // Analyze based on file type
-    switch (ext) {
-      case '.ts':
-      case '.js':
-      case '.tsx':
-      case '.jsx':
+    // Analyze based on detected language (shebangs, file names and modelines, not just the extension)
+    switch (language ?? LanguageDetector.detect(filePath, content)) {
+      case 'typescript':
+      case 'javascript':
         references.push(...this.analyzeJavaScriptTypeScript(content, filePath, allFiles));
         break;
-      case '.py':
+      case 'python':
         references.push(...this.analyzePython(content, filePath, allFiles));
         break;
-      case '.java':
+      case 'java':
         references.push(...this.analyzeJava(content, filePath, allFiles));
         break;
-      case '.go':
+      case 'go':
         references.push(...this.analyzeGo(content, filePath, allFiles));
         break;
-      case '.rs':
+      case 'rust':
         references.push(...this.analyzeRust(content, filePath, allFiles));
         break;
-      case '.cpp':
-      case '.c':
-      case '.h':
-      case '.hpp':
+      case 'c':
+      case 'cpp':
         references.push(...this.analyzeCpp(content, filePath, allFiles));
         break;
       default:
@@ -300,16 +306,29 @@ export class CrossReferenceAnalyzer {
 
   private static resolveImportPath(importPath: string, currentFile: string, allFiles: string[]): string | null {
     const currentDir = path.dirname(currentFile);
+    const fileSet = this.getFileSet(allFiles);
     
     // Handle relative imports
     if (importPath.startsWith('./') || importPath.startsWith('../')) {
       const resolved = path.resolve(currentDir, importPath);
       
+      // Specifiers that already name the file, or its emitted JavaScript name
+      if (fileSet.has(resolved)) {
+        return resolved;
+      }
+      const emittedExt = path.extname(resolved);
+      for (const sourceExt of EMITTED_EXTENSIONS[emittedExt] || []) {
+        const sourceFile = resolved.slice(0, -emittedExt.length) + sourceExt;
+        if (fileSet.has(sourceFile)) {
+          return sourceFile;
+        }
+      }
+      
       // Try with common extensions
       const extensions = ['.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.go', '.rs', '.cpp', '.c', '.h'];
       for (const ext of extensions) {
         const withExt = resolved + ext;
-        if (allFiles.includes(withExt)) {
+        if (fileSet.has(withExt)) {
           return withExt;
         }
       }
@@ -317,7 +336,7 @@ export class CrossReferenceAnalyzer {
       // Try index files
       for (const ext of extensions) {
         const indexFile = path.join(resolved, `index${  ext}`);
-        if (allFiles.includes(indexFile)) {
+        if (fileSet.has(indexFile)) {
           return indexFile;
         }
       }
@@ -333,6 +352,15 @@ export class CrossReferenceAnalyzer {
     return matchingFiles.length === 1 ? matchingFiles[0] : null;
   }
 
+  private static getFileSet(allFiles: string[]): Set<string> {
+    let fileSet = this.fileSets.get(allFiles);
+    if (!fileSet) {
+      fileSet = new Set(allFiles);
+      this.fileSets.set(allFiles, fileSet);
+    }
+    return fileSet;
+  }
+
   private static deduplicateReferences(references: CrossReference[]): CrossReference[] {
     const seen = new Set<string>();
     return references.filter(ref => {
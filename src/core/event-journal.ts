@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JournalEvent, JournalEventType } from '../types/index.js';
+import { IncludeScope } from './include-scope.js';
+
+export const JOURNAL_FILE = 'journal.jsonl';
+
+export const JOURNAL_EVENT_TYPES: JournalEventType[] = [
+  'init', 'claim', 'release', 'expire', 'store', 'validation_failure', 'skip', 'defer', 'fail', 'edit', 'survey', 'rescan', 'update', 'rebuild',
+];
+
+export interface JournalFilter {
+  types?: JournalEventType[];
+  agentId?: string;
+  files?: string[]; // Paths, directories or globs, matched like queue edits
+  since?: Date;
+  sessionId?: string;
+}
+
+// What a rebuild needs to know about a session recorded in the journal
+export interface JournalSession {
+  sessionId: string;
+  startTime: string;
+  excludePatterns: string[];
+  includePatterns: string[];
+}
+
+// Append-only JSONL log of a session's events. Lines are appended without the session lock, so a line
+// cut short by a crash is skipped when reading rather than failing the whole journal
+export class EventJournal {
+  private journalPath: string;
+
+  constructor(journalPath: string) {
+    this.journalPath = journalPath;
+  }
+
+  getPath(): string {
+    return this.journalPath;
+  }
+
+  // Journal problems are reported but never fail the operation being recorded
+  async append(events: JournalEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    try {
+      await fs.mkdir(path.dirname(this.journalPath), { recursive: true });
+      await fs.appendFile(this.journalPath, events.map(event => `${JSON.stringify(event)}\n`).join(''), 'utf-8');
+    } catch (_error) {
+      console.error('Failed to append to the event journal:', _error);
+    }
+  }
+
+  // Complete lines from byte offset on; the returned offset is where the next read continues
+  async read(offset = 0): Promise<{ events: JournalEvent[]; offset: number; malformed: number }> {
+    let content: Buffer;
+    try {
+      const handle = await fs.open(this.journalPath, 'r');
+      try {
+        const { size } = await handle.stat();
+        content = Buffer.alloc(Math.max(0, size - offset));
+        await handle.read(content, 0, content.length, offset);
+      } finally {
+        await handle.close();
+      }
+    } catch (_error) {
+      return { events: [], offset, malformed: 0 }; // No journal yet
+    }
+
+    // A line still being appended is left for the next read
+    const end = content.lastIndexOf('\n') + 1;
+    const events: JournalEvent[] = [];
+    let malformed = 0;
+    for (const line of content.subarray(0, end).toString('utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line);
+        if (typeof event.type === 'string' && typeof event.sessionId === 'string') {
+          events.push(event);
+        } else {
+          malformed++;
+        }
+      } catch (_error) {
+        malformed++;
+      }
+    }
+    return { events, offset: offset + end, malformed };
+  }
+
+  static filter(events: JournalEvent[], filter: JournalFilter): JournalEvent[] {
+    const scope = filter.files && filter.files.length > 0 ? new IncludeScope(filter.files) : undefined;
+    return events.filter(event =>
+      (!filter.types || filter.types.length === 0 || filter.types.includes(event.type)) &&
+      (!filter.agentId || event.agentId === filter.agentId) &&
+      (!scope || this.getFiles(event).some(file => scope.includes(file.replace(/#chunk-\d+$/, '')))) &&
+      (!filter.since || Date.parse(event.timestamp) >= filter.since.getTime()) &&
+      (!filter.sessionId || event.sessionId === filter.sessionId)
+    );
+  }
+
+  // Queue edits record the files they changed in their details
+  private static getFiles(event: JournalEvent): string[] {
+    if (event.file !== undefined) return [event.file];
+    return Array.isArray(event.details?.files) ? event.details.files.map(String) : [];
+  }
+
+  // The session to rebuild: the given one, or the one initialized last. Its latest init event holds the scope,
+  // which grows when a recovered session is extended
+  static findSession(events: JournalEvent[], sessionId?: string): JournalSession {
+    const inits = events.filter(event => event.type === 'init' && (!sessionId || event.sessionId === sessionId));
+    const latest = inits[inits.length - 1];
+    if (!latest) {
+      throw new Error(sessionId ? `The event journal has no session ${sessionId}` : 'The event journal records no initialized session');
+    }
+
+    const first = events.find(event => event.sessionId === latest.sessionId)!;
+    const details = latest.details || {};
+    return {
+      sessionId: latest.sessionId,
+      startTime: first.timestamp,
+      excludePatterns: Array.isArray(details.excludePatterns) ? details.excludePatterns : [],
+      includePatterns: Array.isArray(details.includePatterns) ? details.includePatterns : [],
+    };
+  }
+}
\ No newline at end of file
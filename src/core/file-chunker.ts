@@ -0,0 +1,146 @@
+import path from 'path';
+import { FileChunk } from '../types/index.js';
+
+type ChunkStrategy = 'declarations' | 'headings' | 'lines';
+
+const MARKDOWN_EXTENSIONS = ['.md', '.mdx', '.markdown', '.rst', '.adoc'];
+const CODE_EXTENSIONS = [
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.scala',
+  '.cpp', '.cc', '.c', '.h', '.hpp', '.cs', '.php', '.rb', '.swift', '.sql',
+];
+
+// Top-level (unindented) lines that start a new logical unit in common languages and SQL
+const DECLARATION_REGEX = /^(?:export\s+|public\s+|private\s+|protected\s+|internal\s+|static\s+|abstract\s+|final\s+|async\s+|pub(?:\([^)]*\))?\s+|@\w+)*(?:default\s+)?(?:class|interface|type|enum|struct|trait|impl|function|func|fn|def|const|let|var|module|namespace|object|record|create|alter|insert|update|delete|drop|grant|comment\s+on)\b/i;
+const HEADING_REGEX = /^#{1,3}\s+\S/;
+
+export class FileChunker {
+  static split(relativePath: string, content: string, targetTokens: number, tokensPerByte: number): FileChunk[] {
+    const lines = content.split('\n');
+    const strategy = this.getStrategy(relativePath);
+    const targetChars = Math.max(1, Math.floor(targetTokens / tokensPerByte));
+
+    // Segment starts are line indexes (0-based) where a logical unit begins
+    const starts = strategy === 'lines' ? [0] : this.findSegmentStarts(lines, strategy);
+    const segments: Array<{ start: number; end: number }> = starts.map((start, i) => ({
+      start,
+      end: (starts[i + 1] ?? lines.length) - 1,
+    }));
+
+    // Pack consecutive segments up to the target size, splitting oversized segments by line windows
+    const ranges: Array<{ start: number; end: number }> = [];
+    let current: { start: number; end: number; chars: number } | null = null;
+
+    for (const segment of segments) {
+      const segmentChars = this.countChars(lines, segment.start, segment.end);
+
+      if (segmentChars > targetChars) {
+        if (current) {
+          ranges.push(current);
+          current = null;
+        }
+        ranges.push(...this.splitByLineWindows(lines, segment.start, segment.end, targetChars));
+        continue;
+      }
+
+      if (current && current.chars + segmentChars > targetChars) {
+        ranges.push(current);
+        current = null;
+      }
+
+      if (current) {
+        current.end = segment.end;
+        current.chars += segmentChars;
+      } else {
+        current = { ...segment, chars: segmentChars };
+      }
+    }
+    if (current) {
+      ranges.push(current);
+    }
+
+    return ranges.map((range, i) => ({
+      index: i + 1,
+      total: ranges.length,
+      startLine: range.start + 1,
+      endLine: range.end + 1,
+      label: this.createLabel(lines, range.start, range.end, strategy),
+    }));
+  }
+
+  static extractChunkContent(content: string, chunk: FileChunk): string {
+    return content.split('\n').slice(chunk.startLine - 1, chunk.endLine).join('\n');
+  }
+
+  private static getStrategy(relativePath: string): ChunkStrategy {
+    const ext = path.extname(relativePath).toLowerCase();
+    if (MARKDOWN_EXTENSIONS.includes(ext)) return 'headings';
+    if (CODE_EXTENSIONS.includes(ext)) return 'declarations';
+    return 'lines';
+  }
+
+  private static findSegmentStarts(lines: string[], strategy: ChunkStrategy): number[] {
+    const starts = [0];
+    const regex = strategy === 'headings' ? HEADING_REGEX : DECLARATION_REGEX;
+    let inCodeFence = false;
+
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Headings inside fenced code blocks are not document structure
+      if (strategy === 'headings' && line.trimStart().startsWith('```')) {
+        inCodeFence = !inCodeFence;
+        continue;
+      }
+      if (inCodeFence) continue;
+
+      if (regex.test(line)) {
+        // Keep leading comments/decorators attached to the declaration they describe
+        let start = i;
+        while (strategy === 'declarations' && start - 1 > starts[starts.length - 1] && /^(?:\/\/|\/\*|\*|#|--|@)/.test(lines[start - 1].trim())) {
+          start--;
+        }
+        starts.push(start);
+      }
+    }
+
+    return starts;
+  }
+
+  private static splitByLineWindows(lines: string[], start: number, end: number, targetChars: number): Array<{ start: number; end: number }> {
+    const windows: Array<{ start: number; end: number }> = [];
+    let windowStart = start;
+    let chars = 0;
+
+    for (let i = start; i <= end; i++) {
+      const lineChars = lines[i].length + 1;
+      if (chars > 0 && chars + lineChars > targetChars) {
+        windows.push({ start: windowStart, end: i - 1 });
+        windowStart = i;
+        chars = 0;
+      }
+      chars += lineChars;
+    }
+    windows.push({ start: windowStart, end });
+
+    return windows;
+  }
+
+  private static countChars(lines: string[], start: number, end: number): number {
+    let chars = 0;
+    for (let i = start; i <= end; i++) {
+      chars += lines[i].length + 1;
+    }
+    return chars;
+  }
+
+  private static createLabel(lines: string[], start: number, end: number, strategy: ChunkStrategy): string {
+    if (strategy !== 'lines') {
+      const firstMeaningful = lines.slice(start, end + 1).find(line => (strategy === 'headings' ? HEADING_REGEX : DECLARATION_REGEX).test(line));
+      if (firstMeaningful) {
+        const label = firstMeaningful.replace(/^#+\s*/, '').replace(/\s*\{\s*$/, '').trim();
+        return label.length > 80 ? `${label.substring(0, 77)}...` : label;
+      }
+    }
+    return `lines ${start + 1}-${end + 1}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileScanner } from './file-scanner.js';
+
+describe('FileScanner', () => {
+  let repoPath: string;
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-scanner-test-'));
+    await fs.mkdir(path.join(repoPath, 'src'));
+    for (let i = 0; i < 60; i++) {
+      await fs.writeFile(path.join(repoPath, 'src', `file-${i}.ts`), `export const value${i} = ${i};\n`);
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('rejects with the first failed batch delivery and delivers no batch after it', async () => {
+    const delivered: number[] = [];
+    const scan = new FileScanner(repoPath).scanRepository({
+      batchSize: 5,
+      useCache: false,
+      onBatch: items => {
+        delivered.push(items.length);
+        if (delivered.length === 1) {
+          throw new Error('queue lock timed out');
+        }
+      },
+    });
+
+    await assert.rejects(scan, /queue lock timed out/);
+    assert.equal(delivered.length, 1);
+  });
+
+  it('applies nested .gitignore files like git, without reading them below ignored directories', async () => {
+    const write = async (file: string, content: string) => {
+      await fs.mkdir(path.dirname(path.join(repoPath, file)), { recursive: true });
+      await fs.writeFile(path.join(repoPath, file), content);
+    };
+    await write('.gitignore', 'ignored/\nout/**\n');
+    await write('out/.gitignore', '!keep.ts\n');
+    await write('out/keep.ts', 'export const keep = 1;\n');
+    await write('out/drop.ts', 'export const drop = 1;\n');
+    await write('ignored/.gitignore', '!kept.ts\n');
+    await write('ignored/kept.ts', 'export const kept = 1;\n');
+
+    const files = await new FileScanner(repoPath).scanRepository({ useCache: false });
+    const scanned = files.map(file => file.relativePath).filter(file => !file.startsWith('src/'));
+
+    assert.deepEqual(scanned.sort(), ['.gitignore', 'out/keep.ts']);
+  });
+
+  it('delivers every scanned file in batches', async () => {
+    let delivered = 0;
+    const files = await new FileScanner(repoPath).scanRepository({
+      batchSize: 5,
+      useCache: false,
+      onBatch: items => { delivered += items.length; },
+    });
+
+    assert.equal(files.length, 60);
+    assert.equal(delivered, 60);
+  });
+});
\ No newline at end of file
@@ -1,196 +1,384 @@
-import { promises as fs } from 'fs';
+import { promises as fs, Stats } from 'fs';
 import path from 'path';
-import { glob } from 'glob';
-import ignore from 'ignore';
-import { FileQueueItem } from '../types/index.js';
+import { globIterate, IgnoreLike } from 'glob';
+import { Minimatch } from 'minimatch';
+import pLimit from 'p-limit';
+import { FileQueueItem, GitChurn, ScanProgress, UndecodableFile, WorkspacePackage } from '../types/index.js';
+import { WorkspaceDetector } from './workspace-detector.js';
+import { IgnoreMatcher } from './ignore-matcher.js';
+import { DEFAULT_PROJECT_CONFIG, FileTypeGroupConfig, ProjectConfig } from './project-config.js';
+import { FileChunker } from './file-chunker.js';
+import { ScanCache } from './scan-cache.js';
+import { GeneratedFileDetector } from './generated-detector.js';
+import { LanguageDetector } from './language-detector.js';
+import { ContentExtractor, ContentExtractorRegistry } from './content-extractors.js';
+import { TextEncoding, TextEncodingDetector } from './text-encoding.js';
+import { GitHistory } from './git-history.js';
 
-interface FileTypeConfig {
-  extensions: string[];
-  category: 'config' | 'source' | 'test' | 'docs' | 'other';
-  priority: number;
-  tokensPerByte: number;
+export interface ScanOptions {
+  concurrency?: number;
+  batchSize?: number;
+  useCache?: boolean;
+  // Called with each batch of work items (sorted by priority) as soon as it is ready
+  onBatch?: (items: FileQueueItem[]) => Promise<void> | void;
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+interface CompiledBoost {
+  boost: number;
+  matchers: Minimatch[];
 }
 
 export class FileScanner {
+  static readonly DEFAULT_CONCURRENCY = 32;
+  static readonly DEFAULT_BATCH_SIZE = 500;
+  private static readonly SAMPLE_BYTES = 8192;
+
   private repoPath: string;
-  private ig: ReturnType<typeof ignore>;
-  private fileTypeConfigs: Map<string, FileTypeConfig>;
+  private ignoreMatcher: IgnoreMatcher;
+  private generatedDetector: GeneratedFileDetector;
+  private contentExtractors = new ContentExtractorRegistry();
+  private gitHistory: GitHistory;
+  private churnLoaded = false;
+  private projectConfig: ProjectConfig;
+  private categoryRules: Array<{ matcher: Minimatch; fileType: string }>;
+  private priorityBoosts: CompiledBoost[];
+  private workspacePackages: WorkspacePackage[] = [];
+  private ignoreStats: Record<string, number> = {};
+  private undecodableFiles: UndecodableFile[] = [];
 
-  constructor(repoPath: string, excludePatterns: string[] = []) {
+  constructor(repoPath: string, excludePatterns: string[] = [], projectConfig: ProjectConfig = DEFAULT_PROJECT_CONFIG) {
     this.repoPath = path.resolve(repoPath);
-    this.ig = ignore();
-    this.fileTypeConfigs = this.initializeFileTypeConfigs();
-    
-    // Add default patterns
-    this.ig.add([
-      'node_modules/**',
-      '.git/**',
-      'dist/**',
-      'build/**',
-      '*.log',
-      '*.tmp',
-      '.DS_Store',
-      ...excludePatterns,
-    ]);
+    this.projectConfig = projectConfig;
+    
+    // Compile glob rules once; paths are matched case-insensitively like the old heuristics
+    const globOptions = { nocase: true, dot: true };
+    this.categoryRules = projectConfig.categoryRules.map(rule => ({
+      matcher: new Minimatch(rule.pattern, globOptions),
+      fileType: rule.fileType,
+    }));
+    this.priorityBoosts = projectConfig.priorityBoosts.map(boost => ({
+      boost: boost.boost,
+      matchers: boost.patterns.map(pattern => new Minimatch(pattern, globOptions)),
+    }));
+    
+    // Default patterns, .gitignore files, .git/info/exclude and .crystallizerignore
+    this.ignoreMatcher = new IgnoreMatcher(this.repoPath, excludePatterns);
+    
+    // .gitattributes linguist-generated/linguist-vendored plus header, name and minification heuristics
+    this.generatedDetector = new GeneratedFileDetector(this.repoPath);
+    
+    // Local git log for optional churn prioritization
+    this.gitHistory = new GitHistory(this.repoPath);
   }
 
-  private initializeFileTypeConfigs(): Map<string, FileTypeConfig> {
-    const configs = new Map<string, FileTypeConfig>();
-    
-    // Configuration files (highest priority)
-    configs.set('config', {
-      extensions: ['.json', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf'],
-      category: 'config',
-      priority: 90,
-      tokensPerByte: 0.4,
-    });
+  async scanRepository(options: ScanOptions = {}): Promise<FileQueueItem[]> {
+    const concurrency = options.concurrency ?? FileScanner.DEFAULT_CONCURRENCY;
+    const batchSize = options.batchSize ?? FileScanner.DEFAULT_BATCH_SIZE;
     
-    // Main entry points and important files
-    configs.set('entry', {
-      extensions: ['.ts', '.js', '.py', '.go', '.rs', '.java', '.cpp', '.c', '.h'],
-      category: 'source',
-      priority: 80,
-      tokensPerByte: 0.3,
-    });
+    // Reload ignore files on every scan so nested .gitignore changes are picked up
+    await this.ignoreMatcher.load();
+    await this.generatedDetector.load(this.ignoreMatcher.createDirectoryFilter());
     
-    // API and service files
-    configs.set('api', {
-      extensions: ['.ts', '.js', '.py', '.go', '.rs', '.java'],
-      category: 'source',
-      priority: 75,
-      tokensPerByte: 0.3,
-    });
+    // Detect monorepo workspace packages so each file can be tagged with its owner
+    this.workspacePackages = await new WorkspaceDetector(this.repoPath).detectPackages();
     
-    // Source files
-    configs.set('source', {
-      extensions: ['.ts', '.js', '.tsx', '.jsx', '.py', '.go', '.rs', '.java', '.cpp', '.c', '.h', '.cs', '.php', '.rb'],
-      category: 'source',
-      priority: 60,
-      tokensPerByte: 0.3,
-    });
+    const churnSettings = this.projectConfig.churn;
+    this.churnLoaded = churnSettings.enabled && await this.gitHistory.load(churnSettings);
     
-    // Test files (lower priority)
-    configs.set('test', {
-      extensions: ['.test.ts', '.test.js', '.spec.ts', '.spec.js', '_test.py', '_test.go'],
-      category: 'test',
-      priority: 30,
-      tokensPerByte: 0.3,
-    });
+    const cache = options.useCache === false
+      ? null
+      : new ScanCache(this.repoPath, { config: this.projectConfig, gitattributes: this.generatedDetector.getAttributesSignature() });
+    await cache?.load();
     
-    // Documentation
-    configs.set('docs', {
-      extensions: ['.md', '.txt', '.rst', '.adoc'],
-      category: 'docs',
-      priority: 40,
-      tokensPerByte: 0.25,
-    });
+    // Track how many files each ignore source excluded
+    this.ignoreStats = {};
+    this.undecodableFiles = [];
+    const progress: ScanProgress = { discovered: 0, ignored: 0, scanned: 0, queued: 0, cacheHits: 0, completed: false };
     
-    return configs;
-  }
-
-  async scanRepository(): Promise<FileQueueItem[]> {
-    const gitignorePath = path.join(this.repoPath, '.gitignore');
+    const fileItems: FileQueueItem[] = [];
+    let batch: FileQueueItem[] = [];
+    let batchDelivery: Promise<void> = Promise.resolve();
+    // The first failed delivery stops later ones and the walk; it is rethrown once pending work has settled
+    let deliveryFailure: { error: unknown } | undefined;
+    const flushBatch = () => {
+      if (batch.length === 0) return;
+      const items = batch.sort((a, b) => b.priority - a.priority);
+      batch = [];
+      // Batches are delivered in order, one at a time
+      if (options.onBatch) {
+        batchDelivery = batchDelivery
+          .then(() => (deliveryFailure ? undefined : options.onBatch!(items)))
+          .catch(_error => {
+            deliveryFailure ??= { error: _error };
+          });
+      }
+    };
     
-    try {
-      const gitignoreContent = await fs.readFile(gitignorePath, 'utf-8');
-      this.ig.add(gitignoreContent);
-    } catch (_error) {
-      // .gitignore might not exist
-    }
-
-    const files = await glob('**/*', {
-      cwd: this.repoPath,
-      nodir: true,
-      dot: true,
-      absolute: false,
-    });
-
-    const relevantFiles = files.filter(file => !this.ig.ignores(file));
+    // Bounded worker pool: stat, binary sniff and analysis run concurrently while the walk continues
+    const limit = pLimit(concurrency);
+    const pending = new Set<Promise<void>>();
     
-    const fileItems: FileQueueItem[] = [];
+    // Ignored directories (node_modules, .git, ...) are never entered; each counts once towards its ignore source
+    const pruneIgnored: IgnoreLike = {
+      childrenIgnored: entry => {
+        const dir = entry.relativePosix();
+        if (!dir) return false;
+        
+        const decision = this.ignoreMatcher.checkDirectory(dir);
+        if (decision.ignored) {
+          if (decision.source) {
+            this.ignoreStats[decision.source] = (this.ignoreStats[decision.source] || 0) + 1;
+          }
+          progress.ignored++;
+        }
+        return decision.ignored;
+      },
+    };
     
-    for (const file of relevantFiles) {
-      const fullPath = path.join(this.repoPath, file);
-      const stats = await fs.stat(fullPath);
+    for await (const file of globIterate('**/*', { cwd: this.repoPath, nodir: true, dot: true, absolute: false, ignore: pruneIgnored })) {
+      if (deliveryFailure) break;
+      progress.discovered++;
       
-      // Skip very large files (>1MB)
-      if (stats.size > 1024 * 1024) continue;
-      
-      // Skip binary files
-      if (await this.isBinaryFile(fullPath)) continue;
+      const decision = this.ignoreMatcher.check(file);
+      if (decision.ignored) {
+        if (decision.source) {
+          this.ignoreStats[decision.source] = (this.ignoreStats[decision.source] || 0) + 1;
+        }
+        progress.ignored++;
+        continue;
+      }
       
-      const fileInfo = this.analyzeFile(file, stats);
+      // Backpressure: don't let the walk run arbitrarily far ahead of the workers
+      if (pending.size >= concurrency * 2) {
+        await Promise.race(pending);
+      }
       
-      fileItems.push({
-        path: fullPath,
-        relativePath: file,
-        size: stats.size,
-        priority: fileInfo.priority,
-        fileType: fileInfo.fileType,
-        estimatedTokens: fileInfo.estimatedTokens,
-        category: fileInfo.category,
-        lastModified: stats.mtime,
+      const task = limit(() => this.scanFile(file, cache, progress)).then(items => {
+        progress.scanned++;
+        progress.queued += items.length;
+        fileItems.push(...items);
+        batch.push(...items);
+        if (batch.length >= batchSize) {
+          flushBatch();
+        }
+        options.onProgress?.({ ...progress });
       });
+      pending.add(task);
+      task.finally(() => pending.delete(task)).catch(() => {});
     }
     
+    await Promise.all(pending);
+    flushBatch();
+    await batchDelivery;
+    if (deliveryFailure) {
+      throw deliveryFailure.error;
+    }
+    await cache?.save();
+    
+    progress.completed = true;
+    options.onProgress?.({ ...progress });
+    
     // Sort by priority (higher priority first)
     return fileItems.sort((a, b) => b.priority - a.priority);
   }
 
-  async readFile(filePath: string): Promise<string> {
-    return fs.readFile(filePath, 'utf-8');
+  private async scanFile(file: string, cache: ScanCache | null, progress: ScanProgress): Promise<FileQueueItem[]> {
+    const fullPath = path.join(this.repoPath, file);
+    let stats;
+    try {
+      stats = await fs.stat(fullPath);
+    } catch (_error) {
+      // File was removed between the directory walk and the stat
+      return [];
+    }
+    
+    const location = {
+      path: fullPath,
+      relativePath: file,
+      lastModified: stats.mtime,
+      package: WorkspaceDetector.findOwningPackage(file, this.workspacePackages)?.relativePath,
+    };
+    
+    // Unchanged files (same size and mtime) reuse their previous analysis
+    const cached = cache?.get(file, stats.size, stats.mtimeMs);
+    if (cached) {
+      progress.cacheHits++;
+      if (cached.undecodable) {
+        this.recordUndecodableFile(file, cached.undecodable);
+      }
+      return this.applyChurn(file, cached.items.map(item => ({ ...item, ...location })));
+    }
+    
+    const { items, undecodable } = await this.analyzeScannedFile(fullPath, file, stats);
+    if (undecodable) {
+      this.recordUndecodableFile(file, undecodable);
+    }
+    cache?.set(file, {
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      items: items.map(({ path: _path, relativePath: _relativePath, lastModified: _lastModified, package: _package, ...item }) => item),
+      undecodable,
+    });
+    
+    return this.applyChurn(file, items.map(item => ({ ...item, ...location })));
   }
 
-  private async isBinaryFile(filePath: string): Promise<boolean> {
-    const buffer = Buffer.alloc(512);
-    const fd = await fs.open(filePath, 'r');
+  // Applied after the scan cache because history changes without touching the file
+  private applyChurn(relativePath: string, items: FileQueueItem[]): FileQueueItem[] {
+    const churn = this.getChurn(relativePath);
+    if (!churn) return items;
     
-    try {
-      await fd.read(buffer, 0, 512, 0);
-      
-      // Check for null bytes (common in binary files)
-      for (let i = 0; i < buffer.length; i++) {
-        if (buffer[i] === 0) return true;
+    const boost = Math.round(this.projectConfig.churn.maxBoost * churn.score / 100);
+    return items.map(item => ({ ...item, churn, priority: Math.max(0, Math.min(100, item.priority + boost)) }));
+  }
+
+  // Returns no items for binary files, undecodable files (with the reason) and files too large to crystallize
+  private async analyzeScannedFile(fullPath: string, file: string, stats: Stats): Promise<{ items: FileQueueItem[]; undecodable?: string }> {
+    const limits = this.projectConfig.sizeLimits;
+    
+    // Skip files too large even for chunking (configurable, 20MB by default)
+    if (stats.size > limits.maxChunkedFileSizeBytes) return { items: [] };
+    
+    // The head of the file drives encoding detection, language detection (shebangs, modelines) and generated-file markers
+    const head = await TextEncodingDetector.readHead(fullPath, FileScanner.SAMPLE_BYTES);
+    const complete = head.length >= stats.size;
+    const detection = TextEncodingDetector.detect(head, complete);
+    if (detection.kind === 'binary') return { items: [] };
+    if (detection.kind === 'undecodable') return { items: [], undecodable: detection.reason };
+    
+    const sample = TextEncodingDetector.decodeSample(head, complete);
+    const language = LanguageDetector.detect(file, sample);
+    
+    // Transcoded files, notebooks, API specs, SQL dumps and large fixtures are sized by what the agent will actually read
+    let contentSize = stats.size;
+    let encoding: TextEncoding = detection.encoding;
+    if (encoding !== 'utf-8' || this.contentExtractors.find(file, sample, stats.size)) {
+      try {
+        const decoded = await this.readDecodedFile(fullPath);
+        contentSize = Buffer.byteLength(decoded.content, 'utf-8');
+        encoding = decoded.encoding;
+      } catch (_error) {
+        return { items: [], undecodable: _error instanceof Error ? _error.message : String(_error) };
       }
-      
-      return false;
-    } finally {
-      await fd.close();
+    }
+    
+    const fileInfo = this.analyzeFile(file, contentSize, language);
+    const item: FileQueueItem = {
+      path: fullPath,
+      relativePath: file,
+      size: stats.size,
+      priority: fileInfo.priority,
+      fileType: fileInfo.fileType,
+      estimatedTokens: fileInfo.estimatedTokens,
+      category: fileInfo.category,
+      lastModified: stats.mtime,
+      language,
+      encoding,
+    };
+    
+    // Generated/vendored files are never chunked; they are excluded or summarized without an agent
+    const generated = this.generatedDetector.detect(file, sample);
+    if (generated) {
+      return { items: [{ ...item, generated }] };
+    }
+    
+    // Large files become one work item per chunk instead of being skipped
+    if (contentSize > limits.maxFileSizeBytes || fileInfo.estimatedTokens > limits.chunkThresholdTokens) {
+      try {
+        return { items: await this.createChunkItems(item, fileInfo.tokensPerByte) };
+      } catch (_error) {
+        // Only the head was checked so far; the rest of the file may not decode
+        return { items: [], undecodable: _error instanceof Error ? _error.message : String(_error) };
+      }
+    }
+    return { items: [item] };
+  }
+
+  getIgnoreStats(): Record<string, number> {
+    return this.ignoreStats;
+  }
+
+  getWorkspacePackages(): WorkspacePackage[] {
+    return this.workspacePackages;
+  }
+
+  // Accepts repository-relative or absolute paths
+  getChurn(filePath: string): GitChurn | undefined {
+    if (!this.churnLoaded) return undefined;
+    return this.gitHistory.get(path.isAbsolute(filePath) ? path.relative(this.repoPath, filePath) : filePath);
+  }
+
+  getUndecodableFiles(): UndecodableFile[] {
+    return this.undecodableFiles;
+  }
+
+  // Also used when a file fails to decode at crystallization time (only its head is checked during the scan)
+  recordUndecodableFile(relativePath: string, reason: string): void {
+    if (!this.undecodableFiles.some(file => file.relativePath === relativePath)) {
+      this.undecodableFiles.push({ relativePath, reason });
     }
   }
 
-  private analyzeFile(filePath: string, stats: Awaited<ReturnType<typeof fs.stat>>): {
+  // Custom extractors take precedence over the built-in ones
+  registerContentExtractor(extractor: ContentExtractor): void {
+    this.contentExtractors.register(extractor);
+  }
+
+  // Returns the content agents should see: transcoded to UTF-8, then extracted for notebooks and structured documents
+  async readFile(filePath: string): Promise<string> {
+    return (await this.readDecodedFile(filePath)).content;
+  }
+
+  // Throws with the reason when the file is binary or cannot be decoded
+  async readDecodedFile(filePath: string): Promise<{ content: string; encoding: TextEncoding }> {
+    const { content, encoding } = TextEncodingDetector.decode(await fs.readFile(filePath));
+    return { content: this.contentExtractors.extract(path.relative(this.repoPath, filePath), content), encoding };
+  }
+
+  private async createChunkItems(item: FileQueueItem, tokensPerByte: number): Promise<FileQueueItem[]> {
+    const content = await this.readFile(item.path);
+    const chunks = FileChunker.split(item.relativePath, content, this.projectConfig.sizeLimits.chunkTargetTokens, tokensPerByte);
+    
+    return chunks.map(chunk => {
+      const chunkSize = Buffer.byteLength(FileChunker.extractChunkContent(content, chunk), 'utf-8');
+      return {
+        ...item,
+        size: chunkSize,
+        estimatedTokens: Math.ceil(chunkSize * tokensPerByte),
+        chunk,
+      };
+    });
+  }
+
+  private analyzeFile(filePath: string, contentSize: number, language?: string): {
     priority: number;
     fileType: string;
     estimatedTokens: number;
+    tokensPerByte: number;
     category: 'config' | 'source' | 'test' | 'docs' | 'other';
   } {
     const ext = path.extname(filePath);
-    const fileName = path.basename(filePath);
+    const normalizedPath = filePath.split(path.sep).join('/');
     
     // Determine file type and base configuration
-    const config = this.getFileTypeConfig(filePath, ext);
+    const config = this.getFileTypeConfig(normalizedPath, ext, language);
     let priority = config.priority;
     
-    // Special priority adjustments
-    if (this.isMainFile(fileName)) {
-      priority += 30;
-    }
-    
-    if (this.isAPIFile(filePath)) {
-      priority += 20;
-    }
-    
-    if (this.isConfigFile(fileName)) {
-      priority += 25;
+    // Special priority adjustments (main, API and config files by default)
+    for (const { boost, matchers } of this.priorityBoosts) {
+      if (matchers.some(matcher => matcher.match(normalizedPath))) {
+        priority += boost;
+      }
     }
     
     // Size-based adjustments and token calculation
-    const fileSize = Number(stats.size);
-    if (fileSize < 100) {
-      priority -= 15; // Very small files are less important
-    } else if (fileSize > 50000) {
-      priority -= 10; // Very large files might be less focused
+    const fileSize = contentSize;
+    const limits = this.projectConfig.sizeLimits;
+    if (fileSize < limits.smallFileBytes) {
+      priority += limits.smallFilePriorityAdjustment; // Very small files are less important
+    } else if (fileSize > limits.largeFileBytes) {
+      priority += limits.largeFilePriorityAdjustment; // Very large files might be less focused
     }
     
     // Calculate estimated tokens
@@ -202,57 +390,38 @@ export class FileScanner {
       priority: Math.max(0, Math.min(100, priority)),
       fileType: ext || 'unknown',
       estimatedTokens,
+      tokensPerByte: config.tokensPerByte,
       category: config.category,
     };
   }
 
-  private getFileTypeConfig(filePath: string, ext: string): FileTypeConfig {
-    // Check for test files first
-    if (filePath.match(/\.(test|spec)\.(ts|js|py|go|rs)$/) || filePath.includes('__tests__') || filePath.includes('/test/')) {
-      return this.fileTypeConfigs.get('test')!;
-    }
-    
-    // Check for API files
-    if (this.isAPIFile(filePath)) {
-      return this.fileTypeConfigs.get('api')!;
-    }
+  private getFileTypeConfig(filePath: string, ext: string, language?: string): Omit<FileTypeGroupConfig, 'extensions'> {
+    const { fileTypes, defaultFileType } = this.projectConfig;
     
-    // Check configuration files
-    if (this.fileTypeConfigs.get('config')!.extensions.includes(ext)) {
-      return this.fileTypeConfigs.get('config')!;
+    // Glob rules first (tests, API files, team-defined mappings)
+    for (const rule of this.categoryRules) {
+      if (rule.matcher.match(filePath) && fileTypes[rule.fileType]) {
+        return fileTypes[rule.fileType];
+      }
     }
     
-    // Check documentation
-    if (this.fileTypeConfigs.get('docs')!.extensions.includes(ext)) {
-      return this.fileTypeConfigs.get('docs')!;
+    // Then extension lookup in group declaration order
+    for (const group of Object.values(fileTypes)) {
+      if (group.extensions.includes(ext)) {
+        return group;
+      }
     }
     
-    // Check source files
-    if (this.fileTypeConfigs.get('source')!.extensions.includes(ext)) {
-      return this.fileTypeConfigs.get('source')!;
+    // Then the detected language (extensionless scripts, Dockerfiles, Makefiles, ...)
+    if (language) {
+      for (const group of Object.values(fileTypes)) {
+        if (group.languages?.includes(language)) {
+          return group;
+        }
+      }
     }
     
     // Default to other
-    return {
-      extensions: [ext],
-      category: 'other',
-      priority: 20,
-      tokensPerByte: 0.3,
-    };
-  }
-
-  private isMainFile(fileName: string): boolean {
-    return /^(index|main|app|server|cli)\.(ts|js|py|go|rs|java)$/.test(fileName) ||
-           /^(package\.json|tsconfig\.json|cargo\.toml|go\.mod|requirements\.txt)$/.test(fileName);
-  }
-
-  private isAPIFile(filePath: string): boolean {
-    return /\/(api|route|controller|handler|service|endpoint)/i.test(filePath) ||
-           /\.(api|route|controller|handler|service)\.(ts|js|py|go|rs|java)$/i.test(filePath);
+    return defaultFileType;
   }
-
-  private isConfigFile(fileName: string): boolean {
-    return /^(package\.json|tsconfig\.json|webpack\.config|babel\.config|eslint|prettier|docker|makefile|cargo\.toml|go\.mod|requirements\.txt)/.test(fileName.toLowerCase());
-  }
-
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { glob, IgnoreLike } from 'glob';
+import ignore from 'ignore';
+import { GeneratedFileInfo } from '../types/index.js';
+
+interface AttributeRule {
+  baseDir: string; // Repository-relative directory of the .gitattributes file ('' for root)
+  matcher: ReturnType<typeof ignore>;
+  attribute: 'linguist-generated' | 'linguist-vendored';
+  value: boolean;
+  source: string;
+}
+
+const LOCKFILES = [
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Cargo.lock',
+  'go.sum', 'poetry.lock', 'Pipfile.lock', 'composer.lock', 'Gemfile.lock', 'mix.lock', 'pubspec.lock', 'flake.lock',
+];
+const GENERATED_NAME_PATTERNS: Array<{ regex: RegExp; reason: string }> = [
+  { regex: /\.pb\.(?:go|cc|h|ts|js)$|_pb2(?:_grpc)?\.pyi?$|_grpc_pb\.(?:js|d\.ts)$/, reason: 'protobuf stub' },
+  { regex: /\.min\.(?:js|mjs|css)$/, reason: 'minified bundle (file name)' },
+  { regex: /\.(?:js|css)\.map$/, reason: 'source map' },
+];
+const VENDOR_DIRECTORIES = ['vendor', 'vendors', 'third_party', 'third-party', 'bower_components'];
+const MINIFIABLE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.css'];
+
+// Header markers only count inside comment lines near the top of the file
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#|--|<!--|;)/;
+const GENERATED_MARKER = /@generated\b|\bDO NOT EDIT\b|\b(?:this|the) (?:file|code) (?:is|was|has been) (?:automatically |auto-?)?generated\b|^\s*(?:\/\/+|\/\*+|\*|#+|--|<!--|;+)\s*(?:auto-?generated|generated (?:by|from|with))\b/i;
+const HEADER_LINES = 20;
+const MINIFIED_SAMPLE_CHARS = 4096;
+
+export class GeneratedFileDetector {
+  private repoPath: string;
+  private rules: AttributeRule[] = [];
+  private attributesSignature = '';
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  // directoryFilter skips the directories the scan skips (see IgnoreMatcher.createDirectoryFilter): rules for files
+  // that are never scanned don't matter
+  async load(directoryFilter: IgnoreLike): Promise<void> {
+    this.rules = [];
+    const signatureParts: string[] = [];
+
+    const attributeFiles = await glob('**/.gitattributes', {
+      cwd: this.repoPath,
+      dot: true,
+      posix: true,
+      ignore: directoryFilter,
+    });
+
+    // Root first, deeper files later so they take precedence
+    const byDepth = attributeFiles
+      .map(file => file.split(path.sep).join('/'))
+      .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+
+    for (const file of byDepth) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.repoPath, file), 'utf-8');
+      } catch (_error) {
+        continue;
+      }
+      signatureParts.push(`${file}\n${content}`);
+
+      const baseDir = path.posix.dirname(file);
+      for (const line of content.split('\n')) {
+        this.rules.push(...this.parseAttributeLine(line, baseDir === '.' ? '' : baseDir, file));
+      }
+    }
+
+    this.attributesSignature = signatureParts.join('\n');
+  }
+
+  // Changes to .gitattributes must invalidate cached scan results even though file mtimes are unchanged
+  getAttributesSignature(): string {
+    return this.attributesSignature;
+  }
+
+  // sample is the beginning of the file (a few KB), used for header markers and minification
+  detect(relativePath: string, sample: string): GeneratedFileInfo | undefined {
+    const normalized = relativePath.split(path.sep).join('/');
+
+    // Explicit .gitattributes settings win, including "-linguist-generated" opt-outs
+    const generatedAttr = this.checkAttribute(normalized, 'linguist-generated');
+    const vendoredAttr = this.checkAttribute(normalized, 'linguist-vendored');
+    if (generatedAttr?.value) {
+      return { kind: 'generated', reason: `linguist-generated in ${generatedAttr.source}` };
+    }
+    if (vendoredAttr?.value) {
+      return { kind: 'vendored', reason: `linguist-vendored in ${vendoredAttr.source}` };
+    }
+
+    if (!vendoredAttr) {
+      const vendorDir = normalized.split('/').slice(0, -1).find(segment => VENDOR_DIRECTORIES.includes(segment));
+      if (vendorDir) {
+        return { kind: 'vendored', reason: `inside ${vendorDir}/ directory` };
+      }
+    }
+
+    if (generatedAttr) {
+      return undefined;
+    }
+
+    const fileName = path.posix.basename(normalized);
+    if (LOCKFILES.includes(fileName)) {
+      return { kind: 'generated', reason: 'lockfile' };
+    }
+    const namePattern = GENERATED_NAME_PATTERNS.find(({ regex }) => regex.test(fileName));
+    if (namePattern) {
+      return { kind: 'generated', reason: namePattern.reason };
+    }
+
+    return this.detectFromContent(sample, path.extname(fileName).toLowerCase());
+  }
+
+  private detectFromContent(sample: string, ext: string): GeneratedFileInfo | undefined {
+    const lines = sample.split('\n');
+
+    const marker = lines.slice(0, HEADER_LINES).find(line => COMMENT_LINE.test(line) && GENERATED_MARKER.test(line));
+    if (marker) {
+      const match = marker.match(GENERATED_MARKER);
+      return { kind: 'generated', reason: `"${match![0]}" header marker` };
+    }
+
+    // Minified code: a large sample packed into very few, very long lines
+    if (MINIFIABLE_EXTENSIONS.includes(ext) && sample.length >= MINIFIED_SAMPLE_CHARS) {
+      const longestLine = Math.max(...lines.map(line => line.length));
+      if (lines.length <= 5 && longestLine > 1000) {
+        return { kind: 'generated', reason: `minified (line of ${longestLine}+ characters)` };
+      }
+    }
+
+    return undefined;
+  }
+
+  private checkAttribute(relativePath: string, attribute: AttributeRule['attribute']): AttributeRule | undefined {
+    let decision: AttributeRule | undefined;
+
+    // Last matching line wins, with deeper .gitattributes files loaded after their parents
+    for (const rule of this.rules) {
+      if (rule.attribute !== attribute) continue;
+
+      let scopedPath = relativePath;
+      if (rule.baseDir) {
+        if (!relativePath.startsWith(`${rule.baseDir}/`)) continue;
+        scopedPath = relativePath.slice(rule.baseDir.length + 1);
+      }
+
+      if (rule.matcher.ignores(scopedPath)) {
+        decision = rule;
+      }
+    }
+
+    return decision;
+  }
+
+  private parseAttributeLine(line: string, baseDir: string, source: string): AttributeRule[] {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return [];
+
+    const [pattern, ...attributes] = trimmed.split(/\s+/);
+    const rules: AttributeRule[] = [];
+
+    for (const rawAttribute of attributes) {
+      // "attr", "attr=true" set it; "-attr", "!attr", "attr=false" unset it
+      const match = rawAttribute.match(/^([-!]?)(linguist-generated|linguist-vendored)(?:=(\w+))?$/);
+      if (!match) continue;
+
+      const value = !match[1] && match[3] !== 'false';
+      rules.push({
+        baseDir,
+        matcher: ignore().add(pattern),
+        attribute: match[2] as AttributeRule['attribute'],
+        value,
+        source,
+      });
+    }
+
+    return rules;
+  }
+}
\ No newline at end of file
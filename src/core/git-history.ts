@@ -0,0 +1,128 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+import { GitChurn } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const RECENCY_HALF_LIFE_DAYS = 90;
+const MAX_COUNTED_AUTHORS = 5;
+const MAX_OUTPUT_BYTES = 256 * 1024 * 1024;
+
+// Churn score at or above which a high-complexity file counts as a hotspot
+const HOTSPOT_CHURN_SCORE = 50;
+
+interface FileHistory {
+  commits: number;
+  linesChanged: number;
+  authors: Set<string>;
+  lastCommitDate: string;
+}
+
+export class GitHistory {
+  private repoPath: string;
+  private churn = new Map<string, GitChurn>();
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  // Returns false when git is not installed or the repository is not a git work tree
+  async load(options: { sinceDays: number; maxCommits: number }): Promise<boolean> {
+    this.churn.clear();
+
+    let output: string;
+    try {
+      const result = await execFileAsync('git', [
+        '-c', 'core.quotePath=false',
+        'log',
+        '--no-merges',
+        '--no-renames',
+        '--numstat',
+        '--relative', // Paths relative to repoPath, even when it is a subdirectory of the work tree
+        `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%aE${FIELD_SEPARATOR}%cI`,
+        `--since=${options.sinceDays}.days`,
+        `--max-count=${options.maxCommits}`,
+      ], { cwd: this.repoPath, maxBuffer: MAX_OUTPUT_BYTES });
+      output = result.stdout;
+    } catch (_error) {
+      console.error(`⚠️  Git history unavailable for ${this.repoPath}; churn prioritization skipped`);
+      return false;
+    }
+
+    const histories = this.parseLog(output);
+    this.computeScores(histories);
+    return true;
+  }
+
+  get(relativePath: string): GitChurn | undefined {
+    return this.churn.get(relativePath.split(path.sep).join('/'));
+  }
+
+  getFileCount(): number {
+    return this.churn.size;
+  }
+
+  // High complexity plus high churn: where stale or shallow context hurts the most
+  static isHotspot(complexity: string | undefined, churn: GitChurn | undefined): boolean {
+    return complexity === 'high' && (churn?.score ?? 0) >= HOTSPOT_CHURN_SCORE;
+  }
+
+  private parseLog(output: string): Map<string, FileHistory> {
+    const histories = new Map<string, FileHistory>();
+
+    for (const record of output.split(RECORD_SEPARATOR)) {
+      const [header, ...statLines] = record.split('\n');
+      const [hash, author, date] = header.split(FIELD_SEPARATOR);
+      if (!hash || !date) continue;
+
+      for (const line of statLines) {
+        // "<added>\t<deleted>\t<path>", with "-" counts for binary files
+        const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+        if (!match) continue;
+
+        const file = match[3];
+        let history = histories.get(file);
+        if (!history) {
+          // Log output is newest first, so the first commit seen is the latest
+          history = { commits: 0, linesChanged: 0, authors: new Set(), lastCommitDate: date };
+          histories.set(file, history);
+        }
+        history.commits++;
+        history.linesChanged += (Number(match[1]) || 0) + (Number(match[2]) || 0);
+        history.authors.add(author.toLowerCase());
+      }
+    }
+
+    return histories;
+  }
+
+  private computeScores(histories: Map<string, FileHistory>): void {
+    let maxCommits = 1;
+    let maxLines = 1;
+    histories.forEach(history => {
+      maxCommits = Math.max(maxCommits, history.commits);
+      maxLines = Math.max(maxLines, history.linesChanged);
+    });
+
+    const now = Date.now();
+    histories.forEach((history, file) => {
+      // Log scaling keeps a handful of extremely busy files from flattening everyone else
+      const commitScore = Math.log1p(history.commits) / Math.log1p(maxCommits);
+      const lineScore = Math.log1p(history.linesChanged) / Math.log1p(maxLines);
+      const ageDays = Math.max(0, (now - new Date(history.lastCommitDate).getTime()) / 86400000);
+      const recencyScore = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+      const authorScore = Math.min(history.authors.size, MAX_COUNTED_AUTHORS) / MAX_COUNTED_AUTHORS;
+
+      this.churn.set(file, {
+        commits: history.commits,
+        linesChanged: history.linesChanged,
+        authors: history.authors.size,
+        lastCommitDate: history.lastCommitDate,
+        score: Math.round(100 * (0.4 * commitScore + 0.2 * lineScore + 0.25 * recencyScore + 0.15 * authorScore)),
+      });
+    });
+  }
+}
\ No newline at end of file
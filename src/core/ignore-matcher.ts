@@ -0,0 +1,233 @@
+import { promises as fs, Dirent } from 'fs';
+import path from 'path';
+import { IgnoreLike } from 'glob';
+import ignore from 'ignore';
+
+export interface IgnoreDecision {
+  ignored: boolean;
+  source?: string;
+}
+
+interface IgnoreLayer {
+  source: string;
+  baseDir: string; // Repository-relative directory the patterns are scoped to ('' for root)
+  matcher: ReturnType<typeof ignore>;
+  hasNegation: boolean; // Has "!" patterns, so it may re-include entries below an ignored pattern such as dir/**
+}
+
+// Stands for "every entry" of a directory: patterns such as dir/** ignore its contents but not dir/ itself
+const ANY_ENTRY = '\u0000';
+
+// Ignore and attribute files inside dependencies never apply to the repository, wherever node_modules sits
+const DEPENDENCY_DIRECTORY = 'node_modules';
+
+function hasNegation(patterns: string | string[]): boolean {
+  const lines = Array.isArray(patterns) ? patterns : patterns.split(/\r?\n/);
+  return lines.some(line => line.trim().startsWith('!'));
+}
+
+export class IgnoreMatcher {
+  static readonly DEFAULT_PATTERNS = [
+    'node_modules/**',
+    '.git/**',
+    '.context-crystallizer/**',
+    'dist/**',
+    'build/**',
+    '*.log',
+    '*.tmp',
+    '.DS_Store',
+  ];
+  static readonly EXCLUDE_SOURCE = 'exclude patterns';
+  static readonly CRYSTALLIZER_IGNORE_FILE = '.crystallizerignore';
+
+  private repoPath: string;
+  private excludeMatcher: ReturnType<typeof ignore>;
+  private excludeHasNegation: boolean;
+  private gitLayers: IgnoreLayer[] = [];
+  private crystallizerLayer: IgnoreLayer | null = null;
+  private dirDecisionCache = new Map<string, IgnoreDecision>();
+
+  constructor(repoPath: string, excludePatterns: string[] = []) {
+    this.repoPath = path.resolve(repoPath);
+    this.excludeMatcher = ignore().add([...IgnoreMatcher.DEFAULT_PATTERNS, ...excludePatterns]);
+    this.excludeHasNegation = hasNegation(excludePatterns);
+  }
+
+  async load(): Promise<void> {
+    this.gitLayers = [];
+    this.crystallizerLayer = null;
+    this.dirDecisionCache.clear();
+
+    // Lowest precedence first: .git/info/exclude, then .gitignore files from the root downwards
+    const infoExclude = await this.readIgnoreFile(path.join(this.repoPath, '.git', 'info', 'exclude'));
+    if (infoExclude !== null) {
+      this.gitLayers.push({ source: '.git/info/exclude', baseDir: '', matcher: ignore().add(infoExclude), hasNegation: hasNegation(infoExclude) });
+    }
+
+    const crystallizerIgnore = await this.readIgnoreFile(path.join(this.repoPath, IgnoreMatcher.CRYSTALLIZER_IGNORE_FILE));
+    if (crystallizerIgnore !== null) {
+      this.crystallizerLayer = {
+        source: IgnoreMatcher.CRYSTALLIZER_IGNORE_FILE,
+        baseDir: '',
+        matcher: ignore().add(crystallizerIgnore),
+        hasNegation: hasNegation(crystallizerIgnore),
+      };
+    }
+
+    // Like git, .gitignore files are read directory by directory from the root downwards, never below an ignored
+    // directory, so the tree is not walked in full before the scan. Directories are only skipped when ignored as a
+    // whole: their own .gitignore may re-include entries that a dir/** pattern ignores
+    const pending = [''];
+    for (let next = 0; next < pending.length; next++) {
+      const dir = pending[next];
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(path.join(this.repoPath, dir), { withFileTypes: true });
+      } catch (_error) {
+        continue;
+      }
+
+      if (entries.some(entry => entry.isFile() && entry.name === '.gitignore')) {
+        await this.addGitignoreLayer(dir ? `${dir}/.gitignore` : '.gitignore');
+      }
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name === DEPENDENCY_DIRECTORY) continue;
+        const child = dir ? `${dir}/${entry.name}` : entry.name;
+        if (!this.checkDirectoryWith(child, false).ignored) {
+          pending.push(child);
+        }
+      }
+    }
+  }
+
+  // For walks that only look for ignore or attribute files: skips the directories the scan skips
+  createDirectoryFilter(): IgnoreLike {
+    return {
+      childrenIgnored: entry => {
+        const dir = entry.relativePosix();
+        return entry.name === DEPENDENCY_DIRECTORY || (!!dir && this.checkDirectory(dir).ignored);
+      },
+    };
+  }
+
+  private async addGitignoreLayer(file: string): Promise<void> {
+    const content = await this.readIgnoreFile(path.join(this.repoPath, file));
+    if (content === null) return;
+
+    const baseDir = path.posix.dirname(file);
+    this.gitLayers.push({
+      source: file,
+      baseDir: baseDir === '.' ? '' : baseDir,
+      matcher: ignore().add(content),
+      hasNegation: hasNegation(content),
+    });
+  }
+
+  check(relativePath: string): IgnoreDecision {
+    const normalized = relativePath.split(path.sep).join('/');
+
+    // Explicit exclude patterns always win
+    if (this.excludeMatcher.ignores(normalized)) {
+      return { ignored: true, source: IgnoreMatcher.EXCLUDE_SOURCE };
+    }
+
+    const gitDecision = this.checkGit(normalized);
+
+    // .crystallizerignore sits on top of git rules: it can exclude tracked files or re-include ignored ones
+    if (this.crystallizerLayer) {
+      const result = this.crystallizerLayer.matcher.test(normalized);
+      if (result.ignored) {
+        return { ignored: true, source: this.crystallizerLayer.source };
+      }
+      if (result.unignored) {
+        return { ignored: false };
+      }
+    }
+
+    return gitDecision;
+  }
+
+  // Whether the scan can skip a directory without walking it: only when check() would ignore everything below it
+  checkDirectory(relativeDir: string): IgnoreDecision {
+    return this.checkDirectoryWith(relativeDir, true);
+  }
+
+  // gitEntries: whether git patterns that ignore every entry of the directory (dir/**) are enough to skip it
+  private checkDirectoryWith(relativeDir: string, gitEntries: boolean): IgnoreDecision {
+    const dir = relativeDir.split(path.sep).join('/').replace(/\/$/, '');
+    // Without negations, ignoring any entry of the directory means ignoring all of them
+    const coversAll = (ignores: (entry: string) => boolean, negated: boolean) => ignores(`${dir}/`) || (!negated && ignores(`${dir}/${ANY_ENTRY}`));
+
+    if (coversAll(entry => this.excludeMatcher.ignores(entry), this.excludeHasNegation)) {
+      return { ignored: true, source: IgnoreMatcher.EXCLUDE_SOURCE };
+    }
+    const crystallizer = this.crystallizerLayer;
+    if (crystallizer && coversAll(entry => crystallizer.matcher.ignores(entry), crystallizer.hasNegation)) {
+      return { ignored: true, source: crystallizer.source };
+    }
+    // .crystallizerignore negations may re-include files below git-ignored directories
+    if (crystallizer?.hasNegation) {
+      return { ignored: false };
+    }
+
+    const dirDecision = this.checkGit(`${dir}/`);
+    if (dirDecision.ignored || !gitEntries || this.gitLayers.some(layer => layer.hasNegation)) {
+      return dirDecision;
+    }
+    return this.evaluateGitLayers(`${dir}/${ANY_ENTRY}`);
+  }
+
+  private checkGit(relativePath: string): IgnoreDecision {
+    // Git never descends into an ignored directory, so nothing below it can be re-included
+    const segments = relativePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const dirDecision = this.checkGitDirectory(`${segments.slice(0, i).join('/')}/`);
+      if (dirDecision.ignored) {
+        return dirDecision;
+      }
+    }
+
+    return this.evaluateGitLayers(relativePath);
+  }
+
+  private checkGitDirectory(dirPath: string): IgnoreDecision {
+    const cached = this.dirDecisionCache.get(dirPath);
+    if (cached) return cached;
+
+    const decision = this.evaluateGitLayers(dirPath);
+    this.dirDecisionCache.set(dirPath, decision);
+    return decision;
+  }
+
+  private evaluateGitLayers(relativePath: string): IgnoreDecision {
+    let decision: IgnoreDecision = { ignored: false };
+
+    // Later (deeper) layers take precedence, matching git's rule ordering
+    for (const layer of this.gitLayers) {
+      let scopedPath = relativePath;
+      if (layer.baseDir) {
+        if (!relativePath.startsWith(`${layer.baseDir}/`)) continue;
+        scopedPath = relativePath.slice(layer.baseDir.length + 1);
+        if (!scopedPath) continue;
+      }
+
+      const result = layer.matcher.test(scopedPath);
+      if (result.ignored) {
+        decision = { ignored: true, source: layer.source };
+      } else if (result.unignored) {
+        decision = { ignored: false };
+      }
+    }
+
+    return decision;
+  }
+
+  private async readIgnoreFile(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (_error) {
+      // Ignore file might not exist
+      return null;
+    }
+  }
+}
\ No newline at end of file
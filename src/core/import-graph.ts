@@ -0,0 +1,230 @@
+import pLimit from 'p-limit';
+import { FileQueueItem } from '../types/index.js';
+import { CrossReferenceAnalyzer } from './cross-reference-analyzer.js';
+
+// Languages whose analyzers resolve imports to repository files
+const GRAPH_LANGUAGES = ['typescript', 'javascript', 'python', 'c', 'cpp'];
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 30;
+const PAGERANK_TOLERANCE = 1e-9;
+
+export class ImportGraph {
+  // Edges point from the importing file to the imported file (absolute paths)
+  private imports = new Map<string, Set<string>>();
+  private importedBy = new Map<string, Set<string>>();
+
+  static async build(files: FileQueueItem[], readFile: (filePath: string) => Promise<string>, concurrency = 16): Promise<ImportGraph> {
+    const graph = new ImportGraph();
+
+    // Chunked files appear once per chunk but are one node
+    const nodes = new Map<string, FileQueueItem>();
+    for (const file of files) {
+      if (file.language && GRAPH_LANGUAGES.includes(file.language) && !nodes.has(file.path)) {
+        nodes.set(file.path, file);
+      }
+    }
+    const allFiles = Array.from(nodes.keys());
+    allFiles.forEach(file => graph.addNode(file));
+
+    const limit = pLimit(concurrency);
+    await Promise.all(Array.from(nodes.values()).map(file => limit(async () => {
+      let content: string;
+      try {
+        content = await readFile(file.path);
+      } catch (_error) {
+        return; // Unreadable or undecodable files stay isolated nodes
+      }
+
+      for (const ref of CrossReferenceAnalyzer.analyzeFileReferences(file.path, content, allFiles, file.language)) {
+        if (ref.type === 'imports' && ref.target !== file.path && nodes.has(ref.target)) {
+          graph.addEdge(file.path, ref.target);
+        }
+      }
+    })));
+
+    return graph;
+  }
+
+  addNode(file: string): void {
+    if (!this.imports.has(file)) {
+      this.imports.set(file, new Set());
+      this.importedBy.set(file, new Set());
+    }
+  }
+
+  addEdge(from: string, to: string): void {
+    this.addNode(from);
+    this.addNode(to);
+    this.imports.get(from)!.add(to);
+    this.importedBy.get(to)!.add(from);
+  }
+
+  getNodeCount(): number {
+    return this.imports.size;
+  }
+
+  getEdgeCount(): number {
+    let edges = 0;
+    this.imports.forEach(targets => { edges += targets.size; });
+    return edges;
+  }
+
+  getImports(file: string): string[] {
+    return Array.from(this.imports.get(file) ?? []);
+  }
+
+  getInDegrees(): Map<string, number> {
+    return new Map(Array.from(this.importedBy, ([file, importers]) => [file, importers.size]));
+  }
+
+  // Rank flows from importers to the modules they import; files importing nothing spread theirs evenly
+  computePageRank(): Map<string, number> {
+    const nodes = Array.from(this.imports.keys());
+    const count = nodes.length;
+    let ranks = new Map(nodes.map(node => [node, 1 / count]));
+
+    for (let iteration = 0; iteration < PAGERANK_ITERATIONS; iteration++) {
+      let danglingRank = 0;
+      for (const node of nodes) {
+        if (this.imports.get(node)!.size === 0) {
+          danglingRank += ranks.get(node)!;
+        }
+      }
+
+      const base = (1 - PAGERANK_DAMPING) / count + PAGERANK_DAMPING * danglingRank / count;
+      const next = new Map<string, number>();
+      let delta = 0;
+      for (const node of nodes) {
+        let incoming = 0;
+        for (const importer of this.importedBy.get(node)!) {
+          incoming += ranks.get(importer)! / this.imports.get(importer)!.size;
+        }
+        const rank = base + PAGERANK_DAMPING * incoming;
+        delta += Math.abs(rank - ranks.get(node)!);
+        next.set(node, rank);
+      }
+
+      ranks = next;
+      if (delta < PAGERANK_TOLERANCE) break;
+    }
+
+    return ranks;
+  }
+
+  // Topological depth along the imports: files importing nothing are level 0 and every other file sits one level
+  // above its deepest import. Files in an import cycle share a level, since none of them can go first
+  computeDependencyLevels(): { levels: Map<string, number>; cycles: string[][] } {
+    const components = this.findStronglyConnectedComponents();
+    const componentOf = new Map<string, number>();
+    components.forEach((members, index) => members.forEach(file => componentOf.set(file, index)));
+    
+    // Components arrive with everything they import ahead of them, so their levels are already known
+    const componentLevels: number[] = [];
+    const levels = new Map<string, number>();
+    components.forEach((members, index) => {
+      let level = 0;
+      for (const file of members) {
+        for (const target of this.imports.get(file)!) {
+          const targetComponent = componentOf.get(target)!;
+          if (targetComponent !== index) {
+            level = Math.max(level, componentLevels[targetComponent] + 1);
+          }
+        }
+      }
+      componentLevels[index] = level;
+      members.forEach(file => levels.set(file, level));
+    });
+    
+    return { levels, cycles: components.filter(members => members.length > 1) };
+  }
+
+  // Tarjan's algorithm with an explicit stack (long import chains would overflow recursion). Components are
+  // emitted in reverse topological order: a component only after every component it imports
+  private findStronglyConnectedComponents(): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+    
+    for (const root of this.imports.keys()) {
+      if (indices.has(root)) continue;
+      
+      const frames: Array<{ node: string; targets: Iterator<string> }> = [];
+      const visit = (node: string) => {
+        indices.set(node, nextIndex);
+        lowLinks.set(node, nextIndex);
+        nextIndex++;
+        stack.push(node);
+        onStack.add(node);
+        frames.push({ node, targets: this.imports.get(node)!.values() });
+      };
+      visit(root);
+      
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+        const next = frame.targets.next();
+        if (!next.done) {
+          if (!indices.has(next.value)) {
+            visit(next.value);
+          } else if (onStack.has(next.value)) {
+            lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(next.value)!));
+          }
+          continue;
+        }
+        
+        frames.pop();
+        if (frames.length > 0) {
+          const parent = frames[frames.length - 1].node;
+          lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+        }
+        if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.node);
+          components.push(component);
+        }
+      }
+    }
+    
+    return components;
+  }
+
+  // Maps raw centrality values onto 0-100 by percentile, with ties sharing their mid-rank
+  static toPercentileScores(values: Map<string, number>): Map<string, number> {
+    const sorted = Array.from(values.values()).sort((a, b) => a - b);
+    const scores = new Map<string, number>();
+    if (sorted.length < 2) {
+      values.forEach((_value, file) => scores.set(file, 50));
+      return scores;
+    }
+
+    for (const [file, value] of values) {
+      const below = this.lowerBound(sorted, value);
+      const equal = this.lowerBound(sorted, value, true) - below;
+      scores.set(file, Math.round(100 * (below + (equal - 1) / 2) / (sorted.length - 1)));
+    }
+    return scores;
+  }
+
+  // Index of the first element >= value (or > value when strict)
+  private static lowerBound(sorted: number[], value: number, strict = false): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (strict ? sorted[mid] <= value : sorted[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
\ No newline at end of file
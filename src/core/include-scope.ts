@@ -0,0 +1,48 @@
+import path from 'path';
+import { Minimatch } from 'minimatch';
+
+// Restricts a crystallization session to repository paths matching include globs; no patterns means everything
+export class IncludeScope {
+  private patterns: string[];
+  private matchers: Minimatch[];
+
+  constructor(patterns: string[] = []) {
+    this.patterns = IncludeScope.normalize(patterns);
+    // Plain paths ("services/payments") cover the directory's contents as well as a file of that name
+    this.matchers = this.patterns.flatMap(pattern => {
+      const variants = new Minimatch(pattern).hasMagic() ? [pattern] : [pattern, `${pattern}/**`];
+      return variants.map(variant => new Minimatch(variant, { dot: true }));
+    });
+  }
+
+  static normalize(patterns: string[]): string[] {
+    const normalized = patterns
+      .map(pattern => pattern.trim().split(path.sep).join('/').replace(/^\.\//, '').replace(/\/+$/, ''))
+      .filter(pattern => pattern && pattern !== '.' && pattern !== '**');
+    return Array.from(new Set(normalized));
+  }
+
+  // Scopes only ever grow: combining with the whole repository (no patterns) yields the whole repository
+  static merge(existing: string[], added: string[]): string[] {
+    const current = this.normalize(existing);
+    const additions = this.normalize(added);
+    if (current.length === 0 || additions.length === 0) {
+      return [];
+    }
+    return Array.from(new Set([...current, ...additions]));
+  }
+
+  getPatterns(): string[] {
+    return this.patterns;
+  }
+
+  isWholeRepository(): boolean {
+    return this.patterns.length === 0;
+  }
+
+  includes(relativePath: string): boolean {
+    if (this.matchers.length === 0) return true;
+    const normalized = relativePath.split(path.sep).join('/');
+    return this.matchers.some(matcher => matcher.match(normalized));
+  }
+}
\ No newline at end of file
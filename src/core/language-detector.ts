@@ -0,0 +1,162 @@
+import path from 'path';
+import { TextEncodingDetector } from './text-encoding.js';
+
+// Exact (case-insensitive) file names, checked before anything else
+const FILENAME_LANGUAGES: Record<string, string> = {
+  'dockerfile': 'dockerfile',
+  'containerfile': 'dockerfile',
+  'makefile': 'makefile',
+  'gnumakefile': 'makefile',
+  'jenkinsfile': 'groovy',
+  'rakefile': 'ruby',
+  'gemfile': 'ruby',
+  'vagrantfile': 'ruby',
+  'podfile': 'ruby',
+  'cmakelists.txt': 'cmake',
+  'build': 'starlark',
+  'build.bazel': 'starlark',
+  'workspace': 'starlark',
+  'workspace.bazel': 'starlark',
+  'justfile': 'just',
+  'procfile': 'procfile',
+};
+
+const FILENAME_PATTERNS: Array<{ regex: RegExp; language: string }> = [
+  { regex: /^(?:dockerfile|containerfile)[.-]/i, language: 'dockerfile' },
+  { regex: /\.dockerfile$/i, language: 'dockerfile' },
+  { regex: /^makefile\./i, language: 'makefile' },
+  { regex: /^jenkinsfile[.-]/i, language: 'groovy' },
+  { regex: /^\.(?:bashrc|bash_profile|zshrc|profile|envrc)$/, language: 'shell' },
+];
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'typescript', '.mts': 'typescript', '.cts': 'typescript',
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python', '.pyi': 'python',
+  '.ipynb': 'jupyter',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin', '.kts': 'kotlin',
+  '.scala': 'scala',
+  '.groovy': 'groovy', '.gradle': 'groovy',
+  '.c': 'c',
+  '.cpp': 'cpp', '.cc': 'cpp', '.cxx': 'cpp', '.hpp': 'cpp', '.hh': 'cpp', '.hxx': 'cpp',
+  '.cs': 'csharp',
+  '.php': 'php',
+  '.rb': 'ruby',
+  '.swift': 'swift',
+  '.sh': 'shell', '.bash': 'shell', '.zsh': 'shell',
+  '.ps1': 'powershell',
+  '.pl': 'perl', '.pm': 'perl',
+  '.lua': 'lua',
+  '.sql': 'sql',
+  '.mk': 'makefile',
+  '.cmake': 'cmake',
+  '.bzl': 'starlark',
+  '.json': 'json',
+  '.yaml': 'yaml', '.yml': 'yaml',
+  '.toml': 'toml',
+  '.ini': 'ini', '.cfg': 'ini', '.conf': 'ini',
+  '.md': 'markdown', '.mdx': 'markdown',
+  '.rst': 'restructuredtext',
+  '.adoc': 'asciidoc',
+  '.html': 'html', '.htm': 'html',
+  '.css': 'css', '.scss': 'scss',
+  '.xml': 'xml',
+};
+
+// Interpreter names from shebang lines ("#!/usr/bin/env python3", "#!/bin/bash")
+const INTERPRETER_LANGUAGES: Array<{ regex: RegExp; language: string }> = [
+  { regex: /^(?:ba|z|k|da|a)?sh$/, language: 'shell' },
+  { regex: /^python[\d.]*$/, language: 'python' },
+  { regex: /^(?:node|nodejs)$/, language: 'javascript' },
+  { regex: /^(?:ts-node|tsx|deno|bun)$/, language: 'typescript' },
+  { regex: /^ruby[\d.]*$/, language: 'ruby' },
+  { regex: /^perl[\d.]*$/, language: 'perl' },
+  { regex: /^php[\d.]*$/, language: 'php' },
+  { regex: /^(?:pwsh|powershell)$/, language: 'powershell' },
+  { regex: /^lua[\d.]*$/, language: 'lua' },
+  { regex: /^groovy$/, language: 'groovy' },
+  { regex: /^make$/, language: 'makefile' },
+];
+
+// Modeline names that differ from our language ids
+const MODELINE_ALIASES: Record<string, string> = {
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  js: 'javascript', ts: 'typescript',
+  py: 'python',
+  'c++': 'cpp',
+  make: 'makefile',
+  rb: 'ruby',
+};
+
+// Signals that a .h header is C++ rather than C
+const CPP_HEADER_SIGNALS = /^\s*(?:class\s+\w+|namespace\s+\w+|template\s*<|using\s+namespace\b|#include\s+<(?:iostream|string|vector|memory|map|algorithm|functional)>)|\bstd::|\b(?:public|private|protected)\s*:/m;
+
+const SAMPLE_BYTES = 8192;
+
+export class LanguageDetector {
+  // Detection order: file name, modeline, shebang, extension (with content heuristics for ambiguous ones)
+  static detect(relativePath: string, sample = ''): string | undefined {
+    const fileName = path.basename(relativePath);
+    const lowerName = fileName.toLowerCase();
+
+    const byName = FILENAME_LANGUAGES[lowerName] || FILENAME_PATTERNS.find(({ regex }) => regex.test(fileName))?.language;
+    if (byName) return byName;
+
+    const byModeline = this.detectFromModeline(sample);
+    if (byModeline) return byModeline;
+
+    const byShebang = this.detectFromShebang(sample);
+    if (byShebang) return byShebang;
+
+    const ext = path.extname(lowerName);
+    if (ext === '.h') {
+      return CPP_HEADER_SIGNALS.test(sample) ? 'cpp' : 'c';
+    }
+    return EXTENSION_LANGUAGES[ext];
+  }
+
+  static async detectFile(fullPath: string, relativePath: string): Promise<string | undefined> {
+    let sample = '';
+    try {
+      // Transcoded so UTF-16 files still expose their shebangs and modelines
+      sample = TextEncodingDetector.decodeSample(await TextEncodingDetector.readHead(fullPath, SAMPLE_BYTES));
+    } catch (_error) {
+      // Fall back to name-based detection
+    }
+
+    return this.detect(relativePath, sample);
+  }
+
+  private static detectFromShebang(sample: string): string | undefined {
+    const match = sample.match(/^#!\s*(\S+)(?:\s+(.*))?/);
+    if (!match) return undefined;
+
+    // "#!/usr/bin/env -S python3 -u" names the interpreter in the arguments
+    let interpreter = path.posix.basename(match[1]);
+    if (interpreter === 'env') {
+      interpreter = (match[2] || '').split(/\s+/).find(arg => arg && !arg.startsWith('-') && !arg.includes('=')) || '';
+    }
+
+    return INTERPRETER_LANGUAGES.find(({ regex }) => regex.test(interpreter))?.language;
+  }
+
+  private static detectFromModeline(sample: string): string | undefined {
+    const lines = sample.split('\n');
+    // Modelines live in the first or last few lines
+    const candidates = [...lines.slice(0, 5), ...lines.slice(-5)];
+
+    for (const line of candidates) {
+      const vim = line.match(/\b(?:vim?|ex):\s*(?:set?\s+)?.*?\b(?:ft|filetype|syntax)=([\w+-]+)/);
+      const emacs = line.match(/-\*-\s*(?:.*?\bmode:\s*)?([\w+-]+)\s*(?:;.*)?-\*-/i);
+      const name = (vim?.[1] || emacs?.[1])?.toLowerCase();
+      if (name) {
+        return MODELINE_ALIASES[name] || name;
+      }
+    }
+
+    return undefined;
+  }
+}
\ No newline at end of file
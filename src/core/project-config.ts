@@ -0,0 +1,687 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type FileCategory = 'config' | 'source' | 'test' | 'docs' | 'other';
+
+export interface FileTypeGroupConfig {
+  extensions: string[];
+  languages?: string[]; // Detected languages, matched after extensions
+  category: FileCategory;
+  priority: number;
+  tokensPerByte: number;
+}
+
+export interface CategoryRule {
+  pattern: string;
+  fileType: string;
+}
+
+export interface PriorityBoost {
+  name: string;
+  patterns: string[];
+  boost: number;
+}
+
+export interface SizeLimits {
+  maxFileSizeBytes: number;
+  smallFileBytes: number;
+  smallFilePriorityAdjustment: number;
+  largeFileBytes: number;
+  largeFilePriorityAdjustment: number;
+  chunkThresholdTokens: number;
+  chunkTargetTokens: number;
+  maxChunkedFileSizeBytes: number;
+}
+
+// 'overview' writes a cheap automatic context; 'exclude' leaves generated/vendored files out entirely
+export type GeneratedFileHandling = 'overview' | 'exclude';
+
+export type CentralityAlgorithm = 'pagerank' | 'in-degree';
+
+// Optional pass that reorders the queue by how central each file is in the import graph
+export interface CentralityConfig {
+  enabled: boolean;
+  algorithm: CentralityAlgorithm;
+  weight: number; // Share of the final priority taken from centrality (0-1); the rest is the static priority
+}
+
+// Optional git history pass that boosts frequently and recently changed files
+export interface ChurnConfig {
+  enabled: boolean;
+  sinceDays: number;
+  maxCommits: number;
+  maxBoost: number; // Priority added for the most churned file; others get a share by churn score
+}
+
+// Optional mode that serves files leaves-first along the import graph, handing agents the stored contexts of
+// each file's direct imports
+export interface DependencyOrderConfig {
+  enabled: boolean;
+  includeDependencyContexts: boolean;
+  maxDependencyContextTokens: number;
+}
+
+// Optional first pass over a representative sample, crystallized with the overview template so search is
+// useful early; the regular queue upgrades those contexts afterwards
+export interface SurveyConfig {
+  enabled: boolean;
+  maxFiles: number;
+  centralFiles: number; // Most central files of the import graph included in the sample
+}
+
+export interface ProjectConfig {
+  fileTypes: Record<string, FileTypeGroupConfig>;
+  defaultFileType: Omit<FileTypeGroupConfig, 'extensions'>;
+  categoryRules: CategoryRule[];
+  priorityBoosts: PriorityBoost[];
+  sizeLimits: SizeLimits;
+  generatedFiles: GeneratedFileHandling;
+  centrality: CentralityConfig;
+  churn: ChurnConfig;
+  dependencyOrder: DependencyOrderConfig;
+  survey: SurveyConfig;
+}
+
+const CATEGORIES: FileCategory[] = ['config', 'source', 'test', 'docs', 'other'];
+const GENERATED_FILE_HANDLING: GeneratedFileHandling[] = ['overview', 'exclude'];
+const CENTRALITY_ALGORITHMS: CentralityAlgorithm[] = ['pagerank', 'in-degree'];
+const API_SEGMENTS = '{api,route,controller,handler,service,endpoint}';
+const API_SUFFIXES = '{api,route,controller,handler,service}';
+const MAIN_EXTENSIONS = '{ts,js,py,go,rs,java}';
+
+// Mirrors the scanner rules that used to be hard-coded in FileScanner
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  fileTypes: {
+    config: {
+      extensions: ['.json', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf'],
+      languages: ['dockerfile', 'makefile', 'cmake', 'starlark', 'just', 'procfile'],
+      category: 'config',
+      priority: 90,
+      tokensPerByte: 0.4,
+    },
+    docs: {
+      extensions: ['.md', '.txt', '.rst', '.adoc'],
+      category: 'docs',
+      priority: 40,
+      tokensPerByte: 0.25,
+    },
+    source: {
+      extensions: ['.ts', '.js', '.tsx', '.jsx', '.py', '.go', '.rs', '.java', '.cpp', '.c', '.h', '.cs', '.php', '.rb'],
+      languages: [
+        'typescript', 'javascript', 'python', 'go', 'rust', 'java', 'kotlin', 'scala', 'groovy', 'c', 'cpp',
+        'csharp', 'php', 'ruby', 'swift', 'shell', 'powershell', 'perl', 'lua', 'sql', 'jupyter',
+      ],
+      category: 'source',
+      priority: 60,
+      tokensPerByte: 0.3,
+    },
+    api: {
+      extensions: [],
+      category: 'source',
+      priority: 75,
+      tokensPerByte: 0.3,
+    },
+    test: {
+      extensions: [],
+      category: 'test',
+      priority: 30,
+      tokensPerByte: 0.3,
+    },
+  },
+  defaultFileType: {
+    category: 'other',
+    priority: 20,
+    tokensPerByte: 0.3,
+  },
+  categoryRules: [
+    { pattern: '**/*.{test,spec}.{ts,js,py,go,rs}', fileType: 'test' },
+    { pattern: '**/__tests__/**', fileType: 'test' },
+    { pattern: '**/test/**', fileType: 'test' },
+    { pattern: `**/${API_SEGMENTS}*`, fileType: 'api' },
+    { pattern: `**/${API_SEGMENTS}*/**`, fileType: 'api' },
+    { pattern: `**/*.${API_SUFFIXES}.${MAIN_EXTENSIONS}`, fileType: 'api' },
+  ],
+  priorityBoosts: [
+    {
+      name: 'main',
+      patterns: [
+        `**/{index,main,app,server,cli}.${MAIN_EXTENSIONS}`,
+        '**/{package.json,tsconfig.json,cargo.toml,go.mod,requirements.txt}',
+      ],
+      boost: 30,
+    },
+    {
+      name: 'api',
+      patterns: [`**/${API_SEGMENTS}*`, `**/${API_SEGMENTS}*/**`, `**/*.${API_SUFFIXES}.${MAIN_EXTENSIONS}`],
+      boost: 20,
+    },
+    {
+      name: 'config',
+      patterns: ['**/{package.json,tsconfig.json,webpack.config,babel.config,eslint,prettier,docker,makefile,cargo.toml,go.mod,requirements.txt}*'],
+      boost: 25,
+    },
+  ],
+  sizeLimits: {
+    maxFileSizeBytes: 1024 * 1024,
+    smallFileBytes: 100,
+    smallFilePriorityAdjustment: -15,
+    largeFileBytes: 50000,
+    largeFilePriorityAdjustment: -10,
+    chunkThresholdTokens: 8000,
+    chunkTargetTokens: 4000,
+    maxChunkedFileSizeBytes: 20 * 1024 * 1024,
+  },
+  generatedFiles: 'overview',
+  centrality: {
+    enabled: false,
+    algorithm: 'pagerank',
+    weight: 0.5,
+  },
+  churn: {
+    enabled: false,
+    sinceDays: 365,
+    maxCommits: 10000,
+    maxBoost: 20,
+  },
+  dependencyOrder: {
+    enabled: false,
+    includeDependencyContexts: true,
+    maxDependencyContextTokens: 2000,
+  },
+  survey: {
+    enabled: false,
+    maxFiles: 200,
+    centralFiles: 20,
+  },
+};
+
+export const PROJECT_CONFIG_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Context Crystallizer project configuration',
+  type: 'object',
+  additionalProperties: false,
+  definitions: {
+    category: { type: 'string', enum: CATEGORIES },
+    priority: { type: 'number', minimum: 0, maximum: 100 },
+    tokensPerByte: { type: 'number', exclusiveMinimum: 0, maximum: 4 },
+  },
+  properties: {
+    $schema: { type: 'string' },
+    $comment: { type: 'string' },
+    fileTypes: {
+      description: 'File type groups keyed by name, merged with the built-in groups by name. Extension lookup checks groups declared here first, then the remaining built-ins.',
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['extensions', 'category', 'priority', 'tokensPerByte'],
+        properties: {
+          $comment: { type: 'string' },
+          extensions: { type: 'array', items: { type: 'string', pattern: '^\\.' } },
+          languages: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Detected languages (e.g. "shell", "dockerfile") assigned to this group when no extension matches' },
+          category: { $ref: '#/definitions/category' },
+          priority: { $ref: '#/definitions/priority' },
+          tokensPerByte: { $ref: '#/definitions/tokensPerByte' },
+        },
+      },
+    },
+    defaultFileType: {
+      description: 'Used for files that match no category rule and no group extension.',
+      type: 'object',
+      additionalProperties: false,
+      required: ['category', 'priority', 'tokensPerByte'],
+      properties: {
+        $comment: { type: 'string' },
+        category: { $ref: '#/definitions/category' },
+        priority: { $ref: '#/definitions/priority' },
+        tokensPerByte: { $ref: '#/definitions/tokensPerByte' },
+      },
+    },
+    categoryRules: {
+      description: 'Glob rules (repository-relative, case-insensitive) mapping paths to a file type group. First match wins and rules are checked before extensions. Replaces the built-in rules when set.',
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['pattern', 'fileType'],
+        properties: {
+          pattern: { type: 'string', minLength: 1 },
+          fileType: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+    priorityBoosts: {
+      description: 'Priority adjustments applied to files matching any of the globs. Replaces the built-in boosts when set.',
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'patterns', 'boost'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          patterns: { type: 'array', items: { type: 'string', minLength: 1 } },
+          boost: { type: 'number', minimum: -100, maximum: 100 },
+        },
+      },
+    },
+    sizeLimits: {
+      description: 'File size thresholds and chunking limits. Merged with the built-in limits.',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        $comment: { type: 'string' },
+        maxFileSizeBytes: { type: 'number', exclusiveMinimum: 0 },
+        smallFileBytes: { type: 'number', minimum: 0 },
+        smallFilePriorityAdjustment: { type: 'number', minimum: -100, maximum: 100 },
+        largeFileBytes: { type: 'number', minimum: 0 },
+        largeFilePriorityAdjustment: { type: 'number', minimum: -100, maximum: 100 },
+        chunkThresholdTokens: { type: 'number', exclusiveMinimum: 0, description: 'Files estimated above this many tokens are split into chunks' },
+        chunkTargetTokens: { type: 'number', exclusiveMinimum: 0, description: 'Approximate token size of each chunk' },
+        maxChunkedFileSizeBytes: { type: 'number', exclusiveMinimum: 0, description: 'Files above this size are skipped entirely' },
+      },
+    },
+    generatedFiles: {
+      description: 'How generated/vendored files (.gitattributes linguist-generated/linguist-vendored, "@generated"/"DO NOT EDIT" headers, lockfiles, minified bundles) are handled: "overview" stores an automatic overview context without agent involvement, "exclude" skips them.',
+      type: 'string',
+      enum: GENERATED_FILE_HANDLING,
+    },
+    centrality: {
+      description: 'Import-graph prioritization: once the scan completes, queued source files are reordered by their centrality blended with the static priority, so widely imported modules are crystallized first. Merged with the built-in settings.',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        $comment: { type: 'string' },
+        enabled: { type: 'boolean' },
+        algorithm: { type: 'string', enum: CENTRALITY_ALGORITHMS, description: '"pagerank" also credits files imported by central files; "in-degree" counts direct importers' },
+        weight: { type: 'number', minimum: 0, maximum: 1, description: 'Share of the final priority taken from the centrality percentile (0-100)' },
+      },
+    },
+    churn: {
+      description: 'Git history prioritization: reads the local git log (git must be installed) and boosts frequently, recently and widely changed files. Churn is stored in context metadata and used to flag hotspots. Merged with the built-in settings.',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        $comment: { type: 'string' },
+        enabled: { type: 'boolean' },
+        sinceDays: { type: 'number', exclusiveMinimum: 0, description: 'Only commits from the last N days are counted' },
+        maxCommits: { type: 'number', exclusiveMinimum: 0, description: 'Upper bound on commits read from the log' },
+        maxBoost: { type: 'number', minimum: 0, maximum: 100, description: 'Priority boost for the most churned files' },
+      },
+    },
+    dependencyOrder: {
+      description: 'Dependency-ordered queue: once the scan completes, source files are served in topological order of the import graph (files importing nothing first, import cycles together), and each work item carries the stored contexts of its direct imports. Merged with the built-in settings.',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        $comment: { type: 'string' },
+        enabled: { type: 'boolean' },
+        includeDependencyContexts: { type: 'boolean', description: 'Attach the stored contexts of the file\'s direct imports to each work item' },
+        maxDependencyContextTokens: { type: 'number', minimum: 0, description: 'Token budget for the attached dependency contexts of one work item' },
+      },
+    },
+    survey: {
+      description: 'Survey pass: once the scan of a new session completes, a representative sample (READMEs, entry points, one file per category and per directory, the most central files) is crystallized first with the overview template; the regular queue then upgrades those contexts. Merged with the built-in settings.',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        $comment: { type: 'string' },
+        enabled: { type: 'boolean' },
+        maxFiles: { type: 'number', minimum: 1, description: 'Upper bound on the sample; directories are covered shallowest first' },
+        centralFiles: { type: 'number', minimum: 0, description: 'Most central files of the import graph included in the sample' },
+      },
+    },
+  },
+};
+
+export class ProjectConfigLoader {
+  static readonly CONFIG_FILE = 'config.json';
+  static readonly SCHEMA_FILE = 'config.schema.json';
+
+  private configPath: string;
+  private schemaPath: string;
+
+  constructor(repoPath: string) {
+    const baseDir = path.join(path.resolve(repoPath), '.context-crystallizer');
+    this.configPath = path.join(baseDir, ProjectConfigLoader.CONFIG_FILE);
+    this.schemaPath = path.join(baseDir, ProjectConfigLoader.SCHEMA_FILE);
+  }
+
+  async load(): Promise<ProjectConfig> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.configPath, 'utf-8');
+    } catch (_error) {
+      // No project configuration - use built-in rules
+      return DEFAULT_PROJECT_CONFIG;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${this.configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const errors = ProjectConfigLoader.validate(raw);
+    if (errors.length > 0) {
+      throw new Error(`Invalid project configuration in ${this.configPath}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    return ProjectConfigLoader.merge(raw as Partial<ProjectConfig>);
+  }
+
+  async scaffold(): Promise<void> {
+    // Schema is owned by the package and kept current; the config itself is never overwritten
+    await fs.writeFile(this.schemaPath, JSON.stringify(PROJECT_CONFIG_SCHEMA, null, 2));
+
+    try {
+      await fs.access(this.configPath);
+    } catch {
+      await fs.writeFile(this.configPath, JSON.stringify(ProjectConfigLoader.createCommentedDefault(), null, 2));
+    }
+  }
+
+  static merge(userConfig: Partial<ProjectConfig>): ProjectConfig {
+    return {
+      fileTypes: this.mergeFileTypes(this.stripComments(userConfig.fileTypes || {})),
+      defaultFileType: { ...DEFAULT_PROJECT_CONFIG.defaultFileType, ...this.stripComments(userConfig.defaultFileType || {}) },
+      categoryRules: userConfig.categoryRules || DEFAULT_PROJECT_CONFIG.categoryRules,
+      priorityBoosts: userConfig.priorityBoosts || DEFAULT_PROJECT_CONFIG.priorityBoosts,
+      sizeLimits: { ...DEFAULT_PROJECT_CONFIG.sizeLimits, ...this.stripComments(userConfig.sizeLimits || {}) },
+      generatedFiles: userConfig.generatedFiles || DEFAULT_PROJECT_CONFIG.generatedFiles,
+      centrality: { ...DEFAULT_PROJECT_CONFIG.centrality, ...this.stripComments(userConfig.centrality || {}) },
+      churn: { ...DEFAULT_PROJECT_CONFIG.churn, ...this.stripComments(userConfig.churn || {}) },
+      dependencyOrder: { ...DEFAULT_PROJECT_CONFIG.dependencyOrder, ...this.stripComments(userConfig.dependencyOrder || {}) },
+      survey: { ...DEFAULT_PROJECT_CONFIG.survey, ...this.stripComments(userConfig.survey || {}) },
+    };
+  }
+
+  private static mergeFileTypes(userGroups: Record<string, FileTypeGroupConfig>): Record<string, FileTypeGroupConfig> {
+    // User-declared groups come first so their extensions win over built-in groups
+    const merged: Record<string, FileTypeGroupConfig> = { ...userGroups };
+    for (const [name, group] of Object.entries(DEFAULT_PROJECT_CONFIG.fileTypes)) {
+      if (!(name in merged)) {
+        merged[name] = group;
+      }
+    }
+    return merged;
+  }
+
+  static validate(raw: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!this.isObject(raw)) {
+      return ['configuration must be a JSON object'];
+    }
+
+    const known = Object.keys(PROJECT_CONFIG_SCHEMA.properties);
+    for (const key of Object.keys(raw)) {
+      if (!known.includes(key)) {
+        errors.push(`${key}: unknown property (allowed: ${known.filter(k => !k.startsWith('$')).join(', ')})`);
+      }
+    }
+
+    const definedGroups = new Set(Object.keys(DEFAULT_PROJECT_CONFIG.fileTypes));
+
+    if (raw.fileTypes !== undefined) {
+      if (!this.isObject(raw.fileTypes)) {
+        errors.push('fileTypes: must be an object keyed by group name');
+      } else {
+        for (const [name, group] of Object.entries(raw.fileTypes)) {
+          if (name === '$comment') continue;
+          definedGroups.add(name);
+          errors.push(...this.validateGroup(`fileTypes.${name}`, group, true));
+        }
+      }
+    }
+
+    if (raw.defaultFileType !== undefined) {
+      errors.push(...this.validateGroup('defaultFileType', raw.defaultFileType, false));
+    }
+
+    if (raw.categoryRules !== undefined) {
+      if (!Array.isArray(raw.categoryRules)) {
+        errors.push('categoryRules: must be an array');
+      } else {
+        raw.categoryRules.forEach((rule, index) => {
+          const at = `categoryRules[${index}]`;
+          if (!this.isObject(rule)) {
+            errors.push(`${at}: must be an object with "pattern" and "fileType"`);
+            return;
+          }
+          if (typeof rule.pattern !== 'string' || !rule.pattern) {
+            errors.push(`${at}.pattern: must be a non-empty glob string`);
+          }
+          if (typeof rule.fileType !== 'string' || !definedGroups.has(rule.fileType)) {
+            errors.push(`${at}.fileType: must name a defined file type group (${Array.from(definedGroups).join(', ')})`);
+          }
+        });
+      }
+    }
+
+    if (raw.priorityBoosts !== undefined) {
+      if (!Array.isArray(raw.priorityBoosts)) {
+        errors.push('priorityBoosts: must be an array');
+      } else {
+        raw.priorityBoosts.forEach((boost, index) => {
+          const at = `priorityBoosts[${index}]`;
+          if (!this.isObject(boost)) {
+            errors.push(`${at}: must be an object with "name", "patterns" and "boost"`);
+            return;
+          }
+          if (typeof boost.name !== 'string' || !boost.name) {
+            errors.push(`${at}.name: must be a non-empty string`);
+          }
+          if (!Array.isArray(boost.patterns) || boost.patterns.some(p => typeof p !== 'string' || !p)) {
+            errors.push(`${at}.patterns: must be an array of glob strings`);
+          }
+          if (!this.isNumberInRange(boost.boost, -100, 100)) {
+            errors.push(`${at}.boost: must be a number between -100 and 100`);
+          }
+        });
+      }
+    }
+
+    if (raw.sizeLimits !== undefined) {
+      if (!this.isObject(raw.sizeLimits)) {
+        errors.push('sizeLimits: must be an object');
+      } else {
+        const limits = raw.sizeLimits;
+        const allowed = Object.keys(DEFAULT_PROJECT_CONFIG.sizeLimits);
+        for (const [key, value] of Object.entries(limits)) {
+          if (key === '$comment') continue;
+          if (!allowed.includes(key)) {
+            errors.push(`sizeLimits.${key}: unknown property (allowed: ${allowed.join(', ')})`);
+          } else if (key.endsWith('Adjustment') ? !this.isNumberInRange(value, -100, 100) : !this.isNumberInRange(value, 0, Number.MAX_SAFE_INTEGER)) {
+            errors.push(`sizeLimits.${key}: must be ${key.endsWith('Adjustment') ? 'a number between -100 and 100' : 'a non-negative number'}`);
+          }
+        }
+        for (const key of ['maxFileSizeBytes', 'chunkThresholdTokens', 'chunkTargetTokens', 'maxChunkedFileSizeBytes']) {
+          if (limits[key] === 0) {
+            errors.push(`sizeLimits.${key}: must be greater than 0`);
+          }
+        }
+      }
+    }
+
+    if (raw.generatedFiles !== undefined && !GENERATED_FILE_HANDLING.includes(raw.generatedFiles as GeneratedFileHandling)) {
+      errors.push(`generatedFiles: must be one of ${GENERATED_FILE_HANDLING.join(', ')}`);
+    }
+
+    if (raw.centrality !== undefined) {
+      if (!this.isObject(raw.centrality)) {
+        errors.push('centrality: must be an object');
+      } else {
+        const centrality = raw.centrality;
+        const allowed = Object.keys(DEFAULT_PROJECT_CONFIG.centrality);
+        for (const key of Object.keys(centrality)) {
+          if (key !== '$comment' && !allowed.includes(key)) {
+            errors.push(`centrality.${key}: unknown property (allowed: ${allowed.join(', ')})`);
+          }
+        }
+        if (centrality.enabled !== undefined && typeof centrality.enabled !== 'boolean') {
+          errors.push('centrality.enabled: must be true or false');
+        }
+        if (centrality.algorithm !== undefined && !CENTRALITY_ALGORITHMS.includes(centrality.algorithm as CentralityAlgorithm)) {
+          errors.push(`centrality.algorithm: must be one of ${CENTRALITY_ALGORITHMS.join(', ')}`);
+        }
+        if (centrality.weight !== undefined && !this.isNumberInRange(centrality.weight, 0, 1)) {
+          errors.push('centrality.weight: must be a number between 0 and 1');
+        }
+      }
+    }
+
+    if (raw.churn !== undefined) {
+      if (!this.isObject(raw.churn)) {
+        errors.push('churn: must be an object');
+      } else {
+        const churn = raw.churn;
+        const allowed = Object.keys(DEFAULT_PROJECT_CONFIG.churn);
+        for (const key of Object.keys(churn)) {
+          if (key !== '$comment' && !allowed.includes(key)) {
+            errors.push(`churn.${key}: unknown property (allowed: ${allowed.join(', ')})`);
+          }
+        }
+        if (churn.enabled !== undefined && typeof churn.enabled !== 'boolean') {
+          errors.push('churn.enabled: must be true or false');
+        }
+        for (const key of ['sinceDays', 'maxCommits']) {
+          if (churn[key] !== undefined && (!this.isNumberInRange(churn[key], Number.MIN_VALUE, Number.MAX_SAFE_INTEGER))) {
+            errors.push(`churn.${key}: must be a number greater than 0`);
+          }
+        }
+        if (churn.maxBoost !== undefined && !this.isNumberInRange(churn.maxBoost, 0, 100)) {
+          errors.push('churn.maxBoost: must be a number between 0 and 100');
+        }
+      }
+    }
+
+    if (raw.dependencyOrder !== undefined) {
+      if (!this.isObject(raw.dependencyOrder)) {
+        errors.push('dependencyOrder: must be an object');
+      } else {
+        const dependencyOrder = raw.dependencyOrder;
+        const allowed = Object.keys(DEFAULT_PROJECT_CONFIG.dependencyOrder);
+        for (const key of Object.keys(dependencyOrder)) {
+          if (key !== '$comment' && !allowed.includes(key)) {
+            errors.push(`dependencyOrder.${key}: unknown property (allowed: ${allowed.join(', ')})`);
+          }
+        }
+        for (const key of ['enabled', 'includeDependencyContexts']) {
+          if (dependencyOrder[key] !== undefined && typeof dependencyOrder[key] !== 'boolean') {
+            errors.push(`dependencyOrder.${key}: must be true or false`);
+          }
+        }
+        if (dependencyOrder.maxDependencyContextTokens !== undefined && !this.isNumberInRange(dependencyOrder.maxDependencyContextTokens, 0, Number.MAX_SAFE_INTEGER)) {
+          errors.push('dependencyOrder.maxDependencyContextTokens: must be a number of 0 or more');
+        }
+      }
+    }
+
+    if (raw.survey !== undefined) {
+      if (!this.isObject(raw.survey)) {
+        errors.push('survey: must be an object');
+      } else {
+        const survey = raw.survey;
+        const allowed = Object.keys(DEFAULT_PROJECT_CONFIG.survey);
+        for (const key of Object.keys(survey)) {
+          if (key !== '$comment' && !allowed.includes(key)) {
+            errors.push(`survey.${key}: unknown property (allowed: ${allowed.join(', ')})`);
+          }
+        }
+        if (survey.enabled !== undefined && typeof survey.enabled !== 'boolean') {
+          errors.push('survey.enabled: must be true or false');
+        }
+        if (survey.maxFiles !== undefined && !this.isNumberInRange(survey.maxFiles, 1, Number.MAX_SAFE_INTEGER)) {
+          errors.push('survey.maxFiles: must be a number of 1 or more');
+        }
+        if (survey.centralFiles !== undefined && !this.isNumberInRange(survey.centralFiles, 0, Number.MAX_SAFE_INTEGER)) {
+          errors.push('survey.centralFiles: must be a number of 0 or more');
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private static validateGroup(at: string, group: unknown, requireExtensions: boolean): string[] {
+    const errors: string[] = [];
+
+    if (!this.isObject(group)) {
+      return [`${at}: must be an object`];
+    }
+
+    if (requireExtensions) {
+      if (!Array.isArray(group.extensions) || group.extensions.some(ext => typeof ext !== 'string' || !ext.startsWith('.'))) {
+        errors.push(`${at}.extensions: must be an array of extensions starting with "." (e.g. ".ts")`);
+      }
+      if (group.languages !== undefined && (!Array.isArray(group.languages) || group.languages.some(language => typeof language !== 'string' || !language))) {
+        errors.push(`${at}.languages: must be an array of language names`);
+      }
+    }
+    if (typeof group.category !== 'string' || !CATEGORIES.includes(group.category as FileCategory)) {
+      errors.push(`${at}.category: must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (!this.isNumberInRange(group.priority, 0, 100)) {
+      errors.push(`${at}.priority: must be a number between 0 and 100`);
+    }
+    if (!this.isNumberInRange(group.tokensPerByte, Number.MIN_VALUE, 4)) {
+      errors.push(`${at}.tokensPerByte: must be a number greater than 0 and at most 4`);
+    }
+
+    return errors;
+  }
+
+  private static createCommentedDefault(): Record<string, unknown> {
+    const withComment = (comment: string, value: object) => ({ $comment: comment, ...value });
+
+    return {
+      $schema: `./${ProjectConfigLoader.SCHEMA_FILE}`,
+      $comment: 'Context Crystallizer project configuration. Every section is optional; omitted sections fall back to the built-in defaults shown here.',
+      fileTypes: withComment(
+        'File type groups merged with the built-ins by name. "extensions" are matched in declaration order, groups listed here before the remaining built-ins; groups with no extensions are only reached through categoryRules.',
+        DEFAULT_PROJECT_CONFIG.fileTypes
+      ),
+      defaultFileType: withComment(
+        'Applied to files that match neither a category rule nor a group extension.',
+        DEFAULT_PROJECT_CONFIG.defaultFileType
+      ),
+      categoryRules: DEFAULT_PROJECT_CONFIG.categoryRules,
+      priorityBoosts: DEFAULT_PROJECT_CONFIG.priorityBoosts,
+      sizeLimits: withComment(
+        'Files above maxFileSizeBytes or chunkThresholdTokens are split into chunks of about chunkTargetTokens; files above maxChunkedFileSizeBytes are skipped. Small/large files get the given priority adjustments.',
+        DEFAULT_PROJECT_CONFIG.sizeLimits
+      ),
+      generatedFiles: DEFAULT_PROJECT_CONFIG.generatedFiles,
+      centrality: withComment(
+        'Set "enabled" to reorder the queue by import-graph centrality once the scan completes; "weight" is the share of the priority taken from centrality.',
+        DEFAULT_PROJECT_CONFIG.centrality
+      ),
+      churn: withComment(
+        'Set "enabled" to read the local git history: files get up to maxBoost priority by churn (commits, lines changed, recency, authors) over the last sinceDays days.',
+        DEFAULT_PROJECT_CONFIG.churn
+      ),
+      dependencyOrder: withComment(
+        'Set "enabled" to serve files leaves-first along the import graph; each work item then includes the stored contexts of its direct imports, up to maxDependencyContextTokens.',
+        DEFAULT_PROJECT_CONFIG.dependencyOrder
+      ),
+      survey: withComment(
+        'Set "enabled" to crystallize a representative sample of up to maxFiles files first with the overview template (READMEs, entry points, one file per category and directory, the centralFiles most imported files); the regular queue upgrades them later.',
+        DEFAULT_PROJECT_CONFIG.survey
+      ),
+    };
+  }
+
+  private static stripComments<T extends object>(value: T): T {
+    const { $comment: _comment, ...rest } = value as Record<string, unknown>;
+    return rest as T;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isNumberInRange(value: unknown, min: number, max: number): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { fork } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { QueueManager } from './queue-manager.js';
+import { FileQueueItem } from '../types/index.js';
+
+// Forked with this flag, the file runs one worker process instead of the tests
+const WORKER_FLAG = '--queue-worker';
+const FILE_COUNT = 40;
+const CLAIMERS = 4;
+
+type WorkerAnswer = { claimed?: string[]; changed?: string[] };
+
+function createFiles(repoPath: string, count: number): FileQueueItem[] {
+  return Array.from({ length: count }, (_unused, i) => ({
+    path: path.join(repoPath, 'src', `file-${i}.ts`),
+    relativePath: `src/file-${i}.ts`,
+    size: 100,
+    priority: 50,
+    fileType: '.ts',
+    estimatedTokens: 25,
+    category: 'source' as const,
+    lastModified: new Date(),
+  }));
+}
+
+async function openQueue(repoPath: string, fileCount: number): Promise<QueueManager> {
+  const queueManager = new QueueManager();
+  await queueManager.initializeQueue(createFiles(repoPath, fileCount), repoPath);
+  return queueManager;
+}
+
+// claim: claims until the queue is empty, storing most items and skipping every fourth one.
+// edit: pins and unpins every file and shifts priorities, bumping the queue revision each round.
+// pin: pins the files matching one pattern
+async function runWorker([command, repoPath, fileCount, arg]: string[]): Promise<WorkerAnswer> {
+  const queueManager = await openQueue(repoPath, parseInt(fileCount));
+
+  if (command === 'claim') {
+    const claimed: string[] = [];
+    for (let file = await queueManager.getNextFile(arg); file; file = await queueManager.getNextFile(arg)) {
+      const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+      claimed.push(key);
+      if (claimed.length % 4 === 0) {
+        await queueManager.recordOutcome(key, 'skip', 'stress test skip', arg);
+      } else {
+        await queueManager.markProcessed(key, arg);
+      }
+    }
+    return { claimed };
+  }
+
+  if (command === 'edit') {
+    const changed: string[] = [];
+    for (let round = 0; round < parseInt(arg); round++) {
+      changed.push(...await queueManager.pinFiles(['src'], round % 2 === 0));
+      changed.push(...await queueManager.adjustPriority(['src'], round % 2 === 0 ? 5 : -5));
+    }
+    return { changed };
+  }
+
+  return { changed: await queueManager.pinFiles([arg]) };
+}
+
+function forkWorker(args: string[]): Promise<WorkerAnswer> {
+  return new Promise((resolve, reject) => {
+    const child = fork(fileURLToPath(import.meta.url), [WORKER_FLAG, ...args], {
+      execArgv: ['--import', 'tsx'],
+      stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+    });
+    let answer: WorkerAnswer | undefined;
+    let stderr = '';
+    child.stderr!.on('data', chunk => { stderr += chunk; });
+    child.on('message', message => { answer = message as WorkerAnswer; });
+    child.on('error', reject);
+    child.on('exit', code => {
+      if (code === 0 && answer) {
+        resolve(answer);
+      } else {
+        reject(new Error(`Worker ${args[0]} exited with code ${code}:\n${stderr}`));
+      }
+    });
+  });
+}
+
+if (process.argv[2] === WORKER_FLAG) {
+  const answer = await runWorker(process.argv.slice(3));
+  process.send!(answer, () => process.disconnect());
+} else {
+  describe('QueueManager shared by several processes', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+      repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'queue-manager-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('hands out every work item exactly once and keeps every completion', { timeout: 300000 }, async () => {
+      const answers = await Promise.all([
+        ...Array.from({ length: CLAIMERS }, (_unused, i) => forkWorker(['claim', repoPath, String(FILE_COUNT), `agent-${i}`])),
+        forkWorker(['edit', repoPath, String(FILE_COUNT), '10']),
+      ]);
+
+      const claimed = answers.flatMap(answer => answer.claimed ?? []);
+      assert.equal(new Set(claimed).size, claimed.length, 'a work item was claimed twice');
+      assert.equal(claimed.length, FILE_COUNT);
+
+      // Every claimer skipped every fourth of its items and stored the rest
+      const skips = answers.reduce((sum, answer) => sum + Math.floor((answer.claimed?.length ?? 0) / 4), 0);
+      const queueManager = await openQueue(repoPath, FILE_COUNT);
+      assert.equal(queueManager.getOutcomes().skipped.length, skips);
+      assert.equal(queueManager.getProcessedCount(), FILE_COUNT - skips);
+      assert.equal(queueManager.getRemainingFiles(), 0);
+    });
+
+    it('keeps a store and a skip made while another process edited the queue', { timeout: 120000 }, async () => {
+      const queueManager = await openQueue(repoPath, 3);
+      const stored = (await queueManager.getNextFile('agent-a'))!;
+      const skipped = (await queueManager.getNextFile('agent-a'))!;
+
+      await forkWorker(['pin', repoPath, '3', 'src/file-2.ts']);
+      await queueManager.markProcessed(QueueManager.getWorkItemKey(stored.path), 'agent-a');
+      await forkWorker(['pin', repoPath, '3', 'src']);
+      await queueManager.recordOutcome(QueueManager.getWorkItemKey(skipped.path), 'skip', 'unreadable', 'agent-a');
+
+      const reopened = await openQueue(repoPath, 3);
+      const { queued, inFlight } = await reopened.getQueueSnapshot();
+      assert.equal(reopened.getProcessedCount(), 1);
+      assert.deepEqual(reopened.getOutcomes().skipped.map(item => item.relativePath), [skipped.relativePath]);
+      assert.deepEqual(inFlight, []);
+      assert.deepEqual(queued.map(file => [file.relativePath, file.pinned]), [['src/file-2.ts', true]]);
+    });
+  });
+
+  describe('QueueManager outcomes', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+      repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'queue-manager-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(repoPath, { recursive: true, force: true });
+    });
+
+    it('serves a deferred item after the items not deferred, even when it is pinned', async () => {
+      const queueManager = await openQueue(repoPath, 3);
+      await queueManager.pinFiles(['src/file-2.ts']);
+
+      const served: string[] = [];
+      for (let file = await queueManager.getNextFile('agent-a'); file; file = await queueManager.getNextFile('agent-a')) {
+        served.push(file.relativePath);
+        if (!file.deferrals) {
+          await queueManager.recordOutcome(QueueManager.getWorkItemKey(file.path), 'defer', 'needs its imports first', 'agent-a');
+        } else {
+          await queueManager.markProcessed(QueueManager.getWorkItemKey(file.path), 'agent-a');
+        }
+      }
+
+      assert.deepEqual(served, [
+        'src/file-2.ts', 'src/file-0.ts', 'src/file-1.ts',
+        'src/file-2.ts', 'src/file-0.ts', 'src/file-1.ts',
+      ]);
+    });
+  });
+}
\ No newline at end of file
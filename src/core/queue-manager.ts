@@ -2,7 +2,50 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import pLimit from 'p-limit';
-import { FileQueueItem, CrystallizationProgress, QueueState } from '../types/index.js';
+import { FileQueueItem, CrystallizationProgress, QueueState, FileClaim, AgentStats, AgentActivity, WorkItemOutcome, SkippedWorkItem, FailedWorkItem, CompletedWorkItem, SessionAnalytics, JournalEvent, JournalEventType } from '../types/index.js';
+import { IncludeScope } from './include-scope.js';
+import { FileLock } from '../utils/file-lock.js';
+import { SessionAnalyzer } from './session-analyzer.js';
+import { EventJournal, JournalSession, JOURNAL_FILE } from './event-journal.js';
+
+// Owner recorded for claims made by agents that do not identify themselves
+export const ANONYMOUS_AGENT_ID = 'anonymous';
+
+// Named sessions keep their queue state and claims in sessions/<name>/; the default session keeps the
+// original location. All sessions share the crystallized contexts and the index
+export const DEFAULT_SESSION_NAME = 'default';
+const SESSION_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const QUEUE_STATE_FILE = 'processing-queue.json';
+const CLAIMS_FILE = 'file-claims.json';
+
+// Claims are short leases that agents renew with heartbeats, so crashed agents release files quickly
+export const DEFAULT_LEASE_SECONDS = 120;
+const MAX_LEASE_SECONDS = 3600;
+
+// Failed items go to the dead-letter list after this many attempts
+export const MAX_ATTEMPTS = 3;
+// Deferred and failed items are requeued this much lower, behind work that has not been tried yet
+const RETRY_PRIORITY_PENALTY = 20;
+
+// Most recent completions kept for throughput, slowest-file and idle-gap analytics
+const MAX_COMPLETION_RECORDS = 1000;
+
+// Queued items examined per batch after the first, bounding the freshness checks one claim can cost
+const BATCH_SCAN_LIMIT = 500;
+
+// Work item keys (relative paths) a rescan changed in a recovered session
+export interface RescanDelta {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+// Queue order: fewest deferrals, so a deferred item waits behind all work deferred less often (pinned or survey
+// items included), then pinned items, survey items, dependency level (only set in dependency order mode), priority
+function compareWorkItems(a: FileQueueItem, b: FileQueueItem): number {
+  return (a.deferrals ?? 0) - (b.deferrals ?? 0) || Number(!!b.pinned) - Number(!!a.pinned) ||
+    Number(!!b.survey) - Number(!!a.survey) || (a.dependencyLevel ?? 0) - (b.dependencyLevel ?? 0) || b.priority - a.priority;
+}
 
 export class QueueManager {
   private queue: FileQueueItem[] = [];
@@ -10,30 +53,141 @@ export class QueueManager {
   private startTime: Date | null = null;
   private currentFile: string | null = null;
   private sessionId: string;
+  private sessionName: string;
   private repoPath: string | null = null;
   private queueStatePath: string | null = null;
   private excludePatterns: string[] = [];
+  private includePatterns: string[] = [];
+  private scopeExtended = false;
   
   // Concurrent agent support
   private claimLimit = pLimit(1); // Mutex: only 1 agent can claim at a time
+  private sessionLock: FileLock | null = null; // Same for agents served by other processes sharing the session
   private claimsPath: string | null = null;
-  private timeoutSeconds: number = 900; // 15 minutes default
+  private leaseSeconds: number = DEFAULT_LEASE_SECONDS;
+  private inFlight = new Map<string, FileQueueItem>(); // Claimed work items, requeued when their claim lapses
+  private agentStats: Record<string, AgentStats> = {};
+  private completions: CompletedWorkItem[] = [];
+  
+  // Work items that left the queue without a stored context, keyed by work item key
+  private skipped: Record<string, SkippedWorkItem> = {};
+  private failures: Record<string, FailedWorkItem> = {};
+  private deadLetter: Record<string, FailedWorkItem> = {};
+  private removed = new Set<string>();
+  private surveyed = new Set<string>();
+  private revision = 0;
+  private journal: EventJournal | null = null;
+  
+  // Streaming scan support: files are enqueued in batches while the scan is still running
+  private scanInProgress = false;
 
-  constructor() {
+  constructor(sessionName?: string) {
     this.sessionId = crypto.randomUUID();
+    this.sessionName = QueueManager.normalizeSessionName(sessionName);
+  }
+
+  static normalizeSessionName(sessionName?: string): string {
+    const name = sessionName?.trim() || DEFAULT_SESSION_NAME;
+    if (!SESSION_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid session name "${name}": use up to 64 letters, digits, ".", "_" or "-", starting with a letter or digit`);
+    }
+    return name;
+  }
+
+  static getSessionDirectory(repoPath: string, sessionName: string): string {
+    const baseDir = path.join(repoPath, '.context-crystallizer');
+    return sessionName === DEFAULT_SESSION_NAME ? baseDir : path.join(baseDir, 'sessions', sessionName);
+  }
+
+  static getJournalPath(repoPath: string, sessionName: string): string {
+    return path.join(this.getSessionDirectory(repoPath, sessionName), JOURNAL_FILE);
+  }
+
+  static async sessionExists(repoPath: string, sessionName: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.getSessionDirectory(repoPath, sessionName), QUEUE_STATE_FILE));
+      return true;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  // Names of the sessions with saved queue state, default first
+  static async listSessions(repoPath: string): Promise<string[]> {
+    let named: string[] = [];
+    try {
+      const entries = await fs.readdir(path.join(repoPath, '.context-crystallizer', 'sessions'), { withFileTypes: true });
+      named = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+    } catch (_error) {
+      // No named sessions yet
+    }
+    
+    const sessions: string[] = [];
+    for (const name of [DEFAULT_SESSION_NAME, ...named]) {
+      if (await this.sessionExists(repoPath, name)) {
+        sessions.push(name);
+      }
+    }
+    return sessions;
   }
 
-  async initializeQueue(files: FileQueueItem[], repoPath: string, excludePatterns: string[] = []): Promise<void> {
+  // Chunks of the same file share a path, so processed/claim bookkeeping uses a per-chunk key
+  static getWorkItemKey(filePath: string, chunkIndex?: number): string {
+    return chunkIndex ? `${filePath}#chunk-${chunkIndex}` : filePath;
+  }
+
+  static normalizeAgentId(agentId?: string): string {
+    return agentId?.trim() || ANONYMOUS_AGENT_ID;
+  }
+
+  // Returns true when a previous session was recovered instead of building a new queue. excludePatterns and
+  // includePatterns undefined keep a recovered session's (none and the whole repository for new sessions)
+  async initializeQueue(files: FileQueueItem[], repoPath: string, excludePatterns?: string[], includePatterns?: string[]): Promise<boolean> {
+    this.excludePatterns = excludePatterns ?? [];
+    this.includePatterns = IncludeScope.normalize(includePatterns || []);
+    this.scopeExtended = false;
+    await this.openSession(repoPath);
+    
+    // Processes starting together must agree on one session: the first creates it, the rest recover it
+    return this.withSessionLock(async () => {
+      const recovered = await this.recoverOrCreateSession(files, repoPath, excludePatterns, includePatterns);
+      await this.logEvent('init', { details: { session: this.sessionName, recovered, excludePatterns: this.excludePatterns, includePatterns: this.includePatterns } });
+      return recovered;
+    });
+  }
+
+  private async openSession(repoPath: string): Promise<void> {
     this.repoPath = repoPath;
-    this.excludePatterns = excludePatterns;
-    this.queueStatePath = path.join(repoPath, '.context-crystallizer', 'processing-queue.json');
-    this.claimsPath = path.join(repoPath, '.context-crystallizer', 'file-claims.json');
+    const sessionDir = QueueManager.getSessionDirectory(repoPath, this.sessionName);
+    this.queueStatePath = path.join(sessionDir, QUEUE_STATE_FILE);
+    this.claimsPath = path.join(sessionDir, CLAIMS_FILE);
+    this.sessionLock = new FileLock(this.queueStatePath);
+    this.journal = new EventJournal(path.join(sessionDir, JOURNAL_FILE));
     
-    // Load timeout configuration
+    // Load lease configuration
     await this.loadTimeoutConfig();
-    
+    await fs.mkdir(sessionDir, { recursive: true });
+  }
+
+  // Appends an event of this session to its journal; file is a work item key
+  async logEvent(type: JournalEventType, event: { agentId?: string; file?: string; details?: Record<string, unknown> } = {}): Promise<void> {
+    await this.journal?.append([this.createEvent(type, event)]);
+  }
+
+  private createEvent(type: JournalEventType, { agentId, file, details }: { agentId?: string; file?: string; details?: Record<string, unknown> }): JournalEvent {
+    return {
+      timestamp: new Date().toISOString(),
+      type,
+      sessionId: this.sessionId,
+      agentId,
+      file: file !== undefined ? this.toRelativeKey(file) : undefined,
+      details,
+    };
+  }
+
+  private async recoverOrCreateSession(files: FileQueueItem[], repoPath: string, excludePatterns?: string[], includePatterns?: string[]): Promise<boolean> {
     // Try to recover from existing session
-    const recovered = await this.tryRecoverSession(repoPath, excludePatterns);
+    const recovered = await this.tryRecoverSession(repoPath, excludePatterns, includePatterns);
     
     if (!recovered) {
       // Filter out files that already have fresh contexts
@@ -46,48 +200,782 @@ export class QueueManager {
       
       this.queue = filesToProcess;
       this.processed.clear();
+      this.inFlight.clear();
+      this.agentStats = {};
+      this.completions = [];
+      this.skipped = {};
+      this.failures = {};
+      this.deadLetter = {};
+      this.removed.clear();
+      this.surveyed.clear();
+      this.revision = 0;
       this.startTime = new Date();
       await this.saveQueueState();
     }
+    
+    return recovered;
   }
 
-  async getNextFile(): Promise<FileQueueItem | null> {
-    // Critical section: only one agent can claim files at a time
+  async enqueueFiles(files: FileQueueItem[]): Promise<void> {
+    // Freshness checks run outside the claim mutex so agents are not blocked by them
+    const freshness = await Promise.all(files.map(file => this.isContextFresh(file)));
+    const candidates = files.filter((_file, i) => !freshness[i]);
+    
     return this.claimLimit(async () => {
+      const known = new Set(this.queue.map(file => QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+      const additions = candidates
+        .filter(file => {
+          const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+          return !this.isSettled(key) && !known.has(key);
+        })
+        .sort(compareWorkItems);
+      
+      // Merge into the ordered queue
+      const merged: FileQueueItem[] = [];
+      let i = 0;
+      let j = 0;
+      while (i < this.queue.length || j < additions.length) {
+        if (j >= additions.length || (i < this.queue.length && compareWorkItems(this.queue[i], additions[j]) <= 0)) {
+          merged.push(this.queue[i++]);
+        } else {
+          merged.push(additions[j++]);
+        }
+      }
+      this.queue = merged;
+    });
+  }
+
+  // Applies new priorities (keyed by work item key) to queued items and restores queue order.
+  // Like a queue edit it bumps the revision, so other processes adopt the new priorities
+  async reprioritize(priorities: Map<string, number>): Promise<number> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      let updated = 0;
+      for (const file of this.queue) {
+        const priority = priorities.get(QueueManager.getWorkItemKey(file.path, file.chunk?.index));
+        if (priority !== undefined && priority !== file.priority) {
+          file.priority = priority;
+          updated++;
+        }
+      }
+      
+      if (updated > 0) {
+        this.queue.sort(compareWorkItems);
+        this.revision++;
+        await this.saveQueueState();
+      }
+      return updated;
+    });
+  }
+
+  // Dependency order mode: assigns import-graph levels (keyed by absolute path, shared by all chunks of a file)
+  // to queued and in-flight items, so files are served after the files they import
+  async applyDependencyLevels(levels: Map<string, number>): Promise<number> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      let updated = 0;
+      for (const file of [...this.queue, ...this.inFlight.values()]) {
+        const level = levels.get(file.path);
+        if (level !== undefined && level !== file.dependencyLevel) {
+          file.dependencyLevel = level;
+          updated++;
+        }
+      }
+      
+      if (updated > 0) {
+        this.queue.sort(compareWorkItems);
+        await this.saveQueueState();
+      }
+      return updated;
+    });
+  }
+
+  // Survey pass: moves the queued items with these work item keys to the front, to be crystallized with the
+  // overview template before the rest of the queue. Returns how many items were marked
+  async applySurvey(keys: string[]): Promise<number> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const selected = new Set(keys);
+      const marked = this.queue.filter(file => selected.has(QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+      marked.forEach(file => { file.survey = true; });
+      
+      if (marked.length > 0) {
+        this.queue.sort(compareWorkItems);
+        await this.saveQueueState();
+        await this.logEvent('survey', { details: { files: marked.map(file => this.toRelativeKey(QueueManager.getWorkItemKey(file.path, file.chunk?.index))) } });
+      }
+      return marked.length;
+    });
+  }
+
+  isSurveyItem(workItemKey: string): boolean {
+    return !!this.inFlight.get(workItemKey)?.survey;
+  }
+
+  // Remaining work in serving order, including items other processes have queued or claimed
+  async getQueueSnapshot(): Promise<{ queued: FileQueueItem[]; inFlight: FileQueueItem[] }> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      return { queued: [...this.queue], inFlight: Array.from(this.inFlight.values()) };
+    });
+  }
+
+  // Queue edits match work items by relative path against globs or plain paths (covering directories).
+  // Each returns the keys of the items it changed
+  async pinFiles(patterns: string[], pinned = true): Promise<string[]> {
+    return this.editQueue(patterns, { action: pinned ? 'pin' : 'unpin' }, matches => matches.filter(file => !!file.pinned !== pinned).map(file => {
+      file.pinned = pinned || undefined;
+      return file;
+    }));
+  }
+
+  async adjustPriority(patterns: string[], delta: number): Promise<string[]> {
+    return this.editQueue(patterns, { action: 'priority', delta }, matches => matches.filter(file => {
+      const priority = Math.max(0, Math.min(100, file.priority + delta));
+      const changed = priority !== file.priority;
+      file.priority = priority;
+      return changed;
+    }));
+  }
+
+  // Queued items only: claimed items stay with their agents
+  async removeFiles(patterns: string[]): Promise<string[]> {
+    return this.editQueue(patterns, { action: 'remove' }, matches => {
+      const removed = new Set(matches);
+      this.queue = this.queue.filter(file => !removed.has(file));
+      matches.forEach(file => {
+        const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+        this.removed.add(key);
+        delete this.failures[key];
+      });
+      return matches;
+    });
+  }
+
+  // Puts scanned work items back into the queue, to be crystallized again even when their context is fresh.
+  // Items already queued or claimed are left alone
+  async requeueFiles(files: FileQueueItem[]): Promise<string[]> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const queued = new Set(this.queue.map(file => QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+      const requeued: string[] = [];
+      for (const file of files) {
+        const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+        if (queued.has(key) || this.inFlight.has(key)) continue;
+        
+        this.processed.delete(key);
+        this.removed.delete(key);
+        delete this.skipped[key];
+        delete this.failures[key];
+        delete this.deadLetter[key];
+        this.requeue({ ...file, reanalyze: true, deferrals: undefined });
+        queued.add(key);
+        requeued.push(key);
+      }
+      
+      if (requeued.length > 0) {
+        this.revision++;
+        await this.saveQueueState();
+        await this.logEvent('edit', { details: { action: 'requeue', files: requeued.map(key => this.toRelativeKey(key)) } });
+      }
+      return requeued;
+    });
+  }
+
+  // Applies an edit to the queued items matching the patterns; edit returns the items it changed.
+  // The journal records the edit (action and its parameters) with the changed files, so it can be replayed
+  private async editQueue(patterns: string[], action: Record<string, unknown>, edit: (matches: FileQueueItem[]) => FileQueueItem[]): Promise<string[]> {
+    const scope = QueueManager.createEditScope(patterns);
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const changed = edit(this.queue.filter(file => scope.includes(file.relativePath)))
+        .map(file => QueueManager.getWorkItemKey(file.path, file.chunk?.index));
+      if (changed.length > 0) {
+        this.queue.sort(compareWorkItems);
+        this.revision++;
+        await this.saveQueueState();
+        await this.logEvent('edit', { details: { ...action, files: changed.map(key => this.toRelativeKey(key)) } });
+      }
+      return changed;
+    });
+  }
+
+  // Unlike session scopes, an edit never silently applies to the whole repository
+  static createEditScope(patterns: string[]): IncludeScope {
+    if (patterns.length === 0 || IncludeScope.normalize(patterns).length === 0) {
+      throw new Error('Queue edits need at least one file path, directory or glob (use "**/*" for every file)');
+    }
+    return new IncludeScope(patterns);
+  }
+
+  // Brings a recovered session up to date with a complete scan: files added since are queued, processed files
+  // whose source changed after their context was written are queued again, and work items whose files were
+  // deleted (or are excluded now) leave the session. Claimed items stay with their agents
+  async reconcileWithScan(files: FileQueueItem[]): Promise<RescanDelta> {
+    const scope = new IncludeScope(this.includePatterns);
+    const scanned = new Map<string, FileQueueItem>();
+    for (const file of files) {
+      if (scope.includes(file.relativePath)) {
+        scanned.set(QueueManager.getWorkItemKey(file.path, file.chunk?.index), file);
+      }
+    }
+    
+    // Freshness checks run outside the session lock so agents are not blocked by them
+    const stale = new Set<string>();
+    await Promise.all(Array.from(scanned, async ([key, file]) => {
+      if (!(await this.isContextFresh(file))) stale.add(key);
+    }));
+    
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      const delta: RescanDelta = { added: [], modified: [], deleted: [] };
+      
+      const known = [
+        ...this.queue.map(file => QueueManager.getWorkItemKey(file.path, file.chunk?.index)),
+        ...this.processed, ...Object.keys(this.skipped), ...Object.keys(this.deadLetter), ...this.removed,
+      ];
+      const deleted = new Set(known.filter(key => !scanned.has(key)));
+      for (const key of deleted) {
+        this.processed.delete(key);
+        this.removed.delete(key);
+        this.surveyed.delete(key);
+        delete this.skipped[key];
+        delete this.failures[key];
+        delete this.deadLetter[key];
+      }
+      this.queue = this.queue.filter(file => !deleted.has(QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+      delta.deleted = Array.from(deleted);
+      
+      // Queued items take the current size and modification time but keep their priority, pins and retries
+      for (const file of this.queue) {
+        const current = scanned.get(QueueManager.getWorkItemKey(file.path, file.chunk?.index))!;
+        file.lastModified = current.lastModified;
+        file.estimatedTokens = current.estimatedTokens;
+      }
+      
+      for (const key of Array.from(this.processed)) {
+        if (stale.has(key)) {
+          this.processed.delete(key);
+          this.requeue(scanned.get(key)!);
+          delta.modified.push(key);
+        }
+      }
+      
+      const queued = new Set(this.queue.map(file => QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+      for (const [key, file] of scanned) {
+        if (stale.has(key) && !queued.has(key) && !this.inFlight.has(key) && !this.isSettled(key)) {
+          this.requeue(file);
+          delta.added.push(key);
+        }
+      }
+      
+      const changed = delta.added.length + delta.modified.length + delta.deleted.length;
+      if (changed > 0) {
+        // Dropped and requeued items cannot be merged by other processes, so they adopt the rescanned state
+        this.revision++;
+        await this.saveQueueState();
+        await this.logEvent('rescan', { details: { added: delta.added.length, modified: delta.modified.length, deleted: delta.deleted.length } });
+        console.error(`🔄 Rescan: ${delta.added.length} files added, ${delta.modified.length} modified since crystallized, ${delta.deleted.length} deleted`);
+      }
+      
+      return {
+        added: delta.added.map(key => this.toRelativeKey(key)),
+        modified: delta.modified.map(key => this.toRelativeKey(key)),
+        deleted: delta.deleted.map(key => this.toRelativeKey(key)),
+      };
+    });
+  }
+
+  async setScanInProgress(inProgress: boolean): Promise<void> {
+    this.scanInProgress = inProgress;
+    
+    // Queue state is persisted once the scan settles rather than after every batch
+    if (!inProgress) {
+      await this.withSessionLock(() => this.saveQueueState());
+    }
+  }
+
+  isScanInProgress(): boolean {
+    return this.scanInProgress;
+  }
+
+  async getNextFile(agentId: string = ANONYMOUS_AGENT_ID): Promise<FileQueueItem | null> {
+    const [file] = await this.getNextBatch(agentId, { maxFiles: 1 });
+    return file ?? null;
+  }
+
+  // Claims up to maxFiles work items within maxTokens. The highest-priority item is always taken, even when it
+  // alone exceeds the budget; after it, items from the same directory go first so related files travel together
+  async getNextBatch(agentId: string = ANONYMOUS_AGENT_ID, limits: { maxFiles: number; maxTokens?: number }): Promise<FileQueueItem[]> {
+    // Critical section: only one agent (in any process) can claim files at a time
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
       await this.cleanupExpiredClaims();
+      const claims = await this.loadClaims();
       
-      while (this.queue.length > 0) {
+      const batch: FileQueueItem[] = [];
+      let seed: FileQueueItem | undefined;
+      while (!seed && this.queue.length > 0) {
         const file = this.queue.shift()!;
+        if (await this.isAvailable(file, claims)) {
+          seed = file;
+        }
+      }
+      
+      if (seed) {
+        batch.push(seed);
+        let tokens = seed.estimatedTokens;
+        const directory = path.dirname(seed.path);
+        // In dependency order mode a batch stays within the seed's level, so no file travels with its imports
+        const level = seed.dependencyLevel ?? 0;
+        const sameLevel = this.queue.filter(file => (file.dependencyLevel ?? 0) <= level);
+        const candidates = [
+          ...sameLevel.filter(file => path.dirname(file.path) === directory),
+          ...sameLevel.filter(file => path.dirname(file.path) !== directory),
+        ].slice(0, BATCH_SCAN_LIMIT);
         
-        if (!this.processed.has(file.path) && !await this.isFileClaimed(file.path)) {
-          await this.claimFile(file.path);
-          this.currentFile = file.path;
-          await this.saveQueueState();
-          return file;
+        const removed = new Set<FileQueueItem>();
+        for (const file of candidates) {
+          if (batch.length >= limits.maxFiles) break;
+          if (limits.maxTokens !== undefined && tokens + file.estimatedTokens > limits.maxTokens) continue;
+          
+          removed.add(file);
+          if (await this.isAvailable(file, claims)) {
+            batch.push(file);
+            tokens += file.estimatedTokens;
+          }
         }
+        this.queue = this.queue.filter(file => !removed.has(file));
       }
       
-      this.currentFile = null;
+      const now = Date.now();
+      for (const file of batch) {
+        const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+        claims[key] = { agentId, claimedAt: now, expiresAt: now + this.leaseSeconds * 1000 };
+        this.inFlight.set(key, file);
+        this.recordClaim(agentId);
+      }
+      if (batch.length > 0) {
+        await this.saveClaims(claims);
+        await this.journal?.append(batch.map(file => this.createEvent('claim', {
+          agentId,
+          file: QueueManager.getWorkItemKey(file.path, file.chunk?.index),
+          details: { category: file.category, estimatedTokens: file.estimatedTokens },
+        })));
+      }
+      
+      this.currentFile = batch.length > 0 ? QueueManager.getWorkItemKey(batch[0].path, batch[0].chunk?.index) : null;
       await this.saveQueueState();
-      return null;
+      return batch;
     });
   }
 
-  async markProcessed(filePath: string): Promise<void> {
-    this.processed.add(filePath);
+  // Unavailable items leave the queue: already processed, stored by another process whose queue state
+  // we have not seen yet, or held by an agent of another process (requeued if that claim lapses)
+  private async isAvailable(file: FileQueueItem, claims: Record<string, FileClaim>): Promise<boolean> {
+    const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
     
-    if (this.currentFile === filePath) {
-      this.currentFile = null;
+    if (this.isSettled(key)) return false;
+    this.upgradeIfSurveyed(file);
+    
+    if (await this.isContextFresh(file)) {
+      this.processed.add(key);
+      return false;
+    }
+    
+    if (claims[key]) {
+      this.inFlight.set(key, file);
+      return false;
+    }
+    
+    return true;
+  }
+
+  // agentId is only used when the work item was not claimed; completions count for the claim owner
+  async markProcessed(workItemKey: string, agentId?: string): Promise<void> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const item = this.inFlight.get(workItemKey);
+      this.inFlight.delete(workItemKey);
+      delete this.failures[workItemKey];
+      
+      // A stored survey overview queues the file again for its full context
+      const survey = !!item?.survey;
+      if (item && survey) {
+        this.surveyed.add(workItemKey);
+        this.requeue(item);
+      } else {
+        this.processed.add(workItemKey);
+      }
+      
+      if (this.currentFile === workItemKey) {
+        this.currentFile = null;
+      }
+      
+      // Release the claim when processing is complete
+      const claim = await this.releaseClaim(workItemKey);
+      const owner = claim?.agentId ?? QueueManager.normalizeAgentId(agentId);
+      
+      // Only claimed items handed out by this process have a known claim-to-store duration
+      const completedAt = Date.now();
+      const completion = claim && item ? {
+        relativePath: this.toRelativeKey(workItemKey),
+        agentId: owner,
+        category: item.category,
+        estimatedTokens: item.estimatedTokens,
+        claimedAt: new Date(claim.claimedAt).toISOString(),
+        completedAt: new Date(completedAt).toISOString(),
+        durationMs: completedAt - claim.claimedAt,
+      } : undefined;
+      this.recordCompletion(owner, completion);
+      
+      await this.saveQueueState();
+      await this.logEvent('store', { agentId: owner, file: workItemKey, details: completion || survey ? { completion, survey: survey || undefined } : undefined });
+    });
+  }
+
+  // Ends a claim without a stored context. skip: never handed out again; defer: requeued behind items deferred less often;
+  // fail: requeued for another attempt, or moved to the dead-letter list after MAX_ATTEMPTS.
+  // force skips the owner check (storage failures and undecodable files are reported by the server itself)
+  async recordOutcome(workItemKey: string, outcome: WorkItemOutcome, reason: string, agentId: string = ANONYMOUS_AGENT_ID, force = false): Promise<{ attempts?: number; deadLettered?: boolean }> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const claims = await this.loadClaims();
+      if (!force) {
+        this.getOwnedClaim(claims, workItemKey, agentId);
+      }
+      if (claims[workItemKey]) {
+        delete claims[workItemKey];
+        await this.saveClaims(claims);
+      }
+      
+      const file = this.inFlight.get(workItemKey);
+      this.inFlight.delete(workItemKey);
+      if (this.currentFile === workItemKey) {
+        this.currentFile = null;
+      }
+      
+      const relativePath = this.toRelativeKey(workItemKey);
+      const now = new Date().toISOString();
+      let result: { attempts?: number; deadLettered?: boolean } = {};
+      
+      if (outcome === 'skip') {
+        this.skipped[workItemKey] = { relativePath, reason, agentId, skippedAt: now };
+        console.error(`⏭️  Skipped ${relativePath}: ${reason}`);
+      } else if (outcome === 'defer') {
+        if (file) {
+          file.deferrals = (file.deferrals || 0) + 1;
+          this.requeueLower(file);
+        }
+        console.error(`⏸️  Deferred ${relativePath}: ${reason}`);
+      } else {
+        const failure = {
+          relativePath,
+          attempts: (this.failures[workItemKey]?.attempts || 0) + 1,
+          lastError: reason,
+          lastAgentId: agentId,
+          lastFailedAt: now,
+        };
+        delete this.failures[workItemKey];
+        
+        if (failure.attempts >= MAX_ATTEMPTS) {
+          this.deadLetter[workItemKey] = failure;
+          console.error(`☠️  ${relativePath} failed ${failure.attempts} times and was moved to the dead-letter list: ${reason}`);
+        } else {
+          this.failures[workItemKey] = failure;
+          if (file) {
+            this.requeueLower(file);
+          }
+          console.error(`❌ ${relativePath} failed (attempt ${failure.attempts}/${MAX_ATTEMPTS}): ${reason}`);
+        }
+        result = { attempts: failure.attempts, deadLettered: failure.attempts >= MAX_ATTEMPTS };
+      }
+      
+      await this.saveQueueState();
+      await this.logEvent(outcome, { agentId, file: workItemKey, details: { reason, ...result } });
+      return result;
+    });
+  }
+
+  getOutcomes(): { skipped: SkippedWorkItem[]; retrying: FailedWorkItem[]; deadLetter: FailedWorkItem[] } {
+    return {
+      skipped: Object.values(this.skipped),
+      retrying: Object.values(this.failures),
+      deadLetter: Object.values(this.deadLetter),
+    };
+  }
+
+  // Renews the lease on one claim; throws when the claim is missing, expired or held by another agent
+  async extendClaim(workItemKey: string, agentId: string = ANONYMOUS_AGENT_ID, seconds?: number): Promise<FileClaim> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const claims = await this.loadClaims();
+      const claim = this.getOwnedClaim(claims, workItemKey, agentId);
+      claim.expiresAt = Date.now() + this.getLeaseMs(seconds);
+      await this.saveClaims(claims);
+      return claim;
+    });
+  }
+
+  // Renews every active claim held by the agent and returns their work item keys
+  async heartbeat(agentId: string = ANONYMOUS_AGENT_ID, seconds?: number): Promise<string[]> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const claims = await this.loadClaims();
+      const renewed = Object.entries(claims)
+        .filter(([_key, claim]) => claim.agentId === agentId && !this.isClaimExpired(claim))
+        .map(([key, claim]) => {
+          claim.expiresAt = Date.now() + this.getLeaseMs(seconds);
+          return key;
+        });
+      
+      if (renewed.length > 0) {
+        await this.saveClaims(claims);
+      }
+      return renewed;
+    });
+  }
+
+  // Abandons a claim so the work item returns to the queue at once; force skips the owner check (operator recovery)
+  async releaseWorkItem(workItemKey: string, agentId: string = ANONYMOUS_AGENT_ID, force = false): Promise<FileClaim> {
+    return this.withSessionLock(async () => {
+      await this.mergeSharedState();
+      
+      const claims = await this.loadClaims();
+      const claim = force ? claims[workItemKey] : this.getOwnedClaim(claims, workItemKey, agentId);
+      if (!claim) {
+        throw new Error(`No claim to release for ${workItemKey}`);
+      }
+      
+      delete claims[workItemKey];
+      await this.saveClaims(claims);
+      
+      const file = this.inFlight.get(workItemKey);
+      if (file) {
+        this.inFlight.delete(workItemKey);
+        this.requeue(file);
+      }
+      if (this.currentFile === workItemKey) {
+        this.currentFile = null;
+      }
+      await this.saveQueueState();
+      await this.logEvent('release', { agentId: claim.agentId, file: workItemKey, details: force && claim.agentId !== agentId ? { forcedBy: agentId } : undefined });
+      
+      console.error(`↩️  Released claim for: ${workItemKey} (${claim.agentId})`);
+      return claim;
+    });
+  }
+
+  getLeaseSeconds(): number {
+    return this.leaseSeconds;
+  }
+
+  // Active (unexpired) claim on a work item, if any
+  async getClaim(workItemKey: string): Promise<FileClaim | undefined> {
+    const claim = (await this.loadClaims())[workItemKey];
+    return claim && !this.isClaimExpired(claim) ? claim : undefined;
+  }
+
+  // In-flight work and throughput per agent, including agents that currently hold no claims
+  async getAgentActivity(): Promise<AgentActivity[]> {
+    const inFlight = new Map<string, string[]>();
+    for (const [key, claim] of Object.entries(await this.loadClaims())) {
+      if (this.isClaimExpired(claim)) continue;
+      inFlight.set(claim.agentId, [...(inFlight.get(claim.agentId) || []), this.toRelativeKey(key)]);
     }
     
-    // Release the claim when processing is complete
-    await this.releaseClaim(filePath);
+    const agentIds = new Set([...Object.keys(this.agentStats), ...inFlight.keys()]);
+    return Array.from(agentIds, agentId => {
+      const stats = this.agentStats[agentId] || { claimed: 0, completed: 0, firstClaimAt: new Date().toISOString() };
+      const hours = (Date.now() - new Date(stats.firstClaimAt).getTime()) / (1000 * 60 * 60);
+      return {
+        agentId,
+        ...stats,
+        inFlight: inFlight.get(agentId) || [],
+        filesPerHour: hours > 0 ? Math.round((stats.completed / hours) * 10) / 10 : 0,
+      };
+    }).sort((a, b) => b.completed - a.completed || a.agentId.localeCompare(b.agentId));
+  }
+
+  // Serializes session state changes within this process (claimLimit) and across processes (lock file).
+  // Sections that change session state merge the shared state before changing it: adopting another process's
+  // edit afterwards (when saving) would replace the change with that process's copy
+  private withSessionLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.claimLimit(() => (this.sessionLock ? this.sessionLock.withLock(fn) : fn()));
+  }
+
+  // Other processes sharing the session save their own view of it; fold in what they processed and queued
+  private async mergeSharedState(): Promise<void> {
+    if (!this.queueStatePath) return;
+    
+    let state: QueueState;
+    try {
+      state = JSON.parse(await fs.readFile(this.queueStatePath, 'utf-8'));
+    } catch (_error) {
+      return;
+    }
+    if (state.sessionId !== this.sessionId) return;
+    
+    // Our own unsaved edit already contains the saved state (edits merge it under the same lock)
+    if ((state.revision || 0) < this.revision) return;
+    if ((state.revision || 0) > this.revision) {
+      this.adoptEditedState(state);
+    }
+    
+    state.processedFiles.forEach(key => this.processed.add(key));
+    this.skipped = { ...state.skipped, ...this.skipped };
+    this.deadLetter = { ...state.deadLetter, ...this.deadLetter };
+    (state.removedFiles || []).forEach(key => this.removed.add(key));
+    (state.surveyedFiles || []).forEach(key => this.surveyed.add(key));
+    for (const [key, failure] of Object.entries(state.failures || {})) {
+      if (failure.attempts > (this.failures[key]?.attempts || 0)) {
+        this.failures[key] = failure;
+      }
+    }
+    for (const key of Object.keys(this.failures)) {
+      if (this.isSettled(key)) delete this.failures[key];
+    }
+    
+    this.queue = this.queue.filter(file => !this.isSettled(QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+    for (const key of this.inFlight.keys()) {
+      if (this.isSettled(key)) this.inFlight.delete(key);
+    }
+    
+    const known = new Set([...this.queue, ...this.inFlight.values()].map(file => QueueManager.getWorkItemKey(file.path, file.chunk?.index)));
+    for (const item of state.remainingQueue) {
+      const key = QueueManager.getWorkItemKey(item.path, item.chunk?.index);
+      if (!known.has(key) && !this.isSettled(key)) {
+        this.requeue({ ...item, lastModified: new Date(item.lastModified) });
+        known.add(key);
+      }
+    }
+    
+    const recorded = new Set(this.completions.map(item => `${item.relativePath}@${item.completedAt}`));
+    const theirs = (state.completions || []).filter(item => !recorded.has(`${item.relativePath}@${item.completedAt}`));
+    if (theirs.length > 0) {
+      this.completions = [...this.completions, ...theirs]
+        .sort((a, b) => Date.parse(a.completedAt) - Date.parse(b.completedAt))
+        .slice(-MAX_COMPLETION_RECORDS);
+    }
+    
+    // Each agent talks to one process, whose counters are the most advanced
+    for (const [agentId, stats] of Object.entries(state.agents || {})) {
+      const ours = this.agentStats[agentId];
+      if (!ours || stats.claimed + stats.completed > ours.claimed + ours.completed) {
+        this.agentStats[agentId] = stats;
+      }
+    }
+    
+    if (!this.arraysEqual(state.includePatterns || [], this.includePatterns)) {
+      this.includePatterns = IncludeScope.merge(state.includePatterns || [], this.includePatterns);
+    }
+  }
+
+  // Queue edits can requeue settled items and reorder the queue, which merging cannot express, so another
+  // process's edit replaces our view; only items a running scan queued here without saving yet are kept
+  private adoptEditedState(state: QueueState): void {
+    this.revision = state.revision || 0;
+    this.processed = new Set(state.processedFiles);
+    this.skipped = state.skipped || {};
+    this.failures = state.failures || {};
+    this.deadLetter = state.deadLetter || {};
+    this.removed = new Set(state.removedFiles || []);
+    this.surveyed = new Set(state.surveyedFiles || []);
+    
+    const edited = new Set(state.remainingQueue.map(item => QueueManager.getWorkItemKey(item.path, item.chunk?.index)));
+    const unsaved = this.queue.filter(file => {
+      const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+      return !edited.has(key) && !this.isSettled(key);
+    });
+    
+    this.queue = state.remainingQueue
+      .filter(item => !this.inFlight.has(QueueManager.getWorkItemKey(item.path, item.chunk?.index)))
+      .map(item => ({ ...item, lastModified: new Date(item.lastModified) }))
+      .sort(compareWorkItems);
+    unsaved.forEach(file => this.requeue(file));
+  }
+
+  private getOwnedClaim(claims: Record<string, FileClaim>, workItemKey: string, agentId: string): FileClaim {
+    const claim = claims[workItemKey];
+    if (!claim || this.isClaimExpired(claim)) {
+      throw new Error(`${workItemKey} has no active claim (it expired or was never claimed)`);
+    }
+    if (claim.agentId !== agentId) {
+      throw new Error(`${workItemKey} is claimed by agent "${claim.agentId}", not "${agentId}"`);
+    }
+    return claim;
+  }
+
+  private getLeaseMs(seconds?: number): number {
+    const lease = seconds !== undefined && seconds > 0 ? seconds : this.leaseSeconds;
+    return Math.min(lease, MAX_LEASE_SECONDS) * 1000;
+  }
+
+  private requeueLower(file: FileQueueItem): void {
+    file.priority = Math.max(0, file.priority - RETRY_PRIORITY_PENALTY);
+    this.requeue(file);
+  }
+
+  // Processed, skipped, dead-lettered and removed items never go back into the queue (unless requeued by an edit)
+  private isSettled(workItemKey: string): boolean {
+    return this.processed.has(workItemKey) || workItemKey in this.skipped || workItemKey in this.deadLetter || this.removed.has(workItemKey);
+  }
+
+  private toRelativeKey(workItemKey: string): string {
+    return this.repoPath && path.isAbsolute(workItemKey) ? path.relative(this.repoPath, workItemKey) : workItemKey;
+  }
+
+  // Inserts a work item behind queued items that come before it or tie with it
+  private requeue(file: FileQueueItem): void {
+    this.upgradeIfSurveyed(file);
+    const index = this.queue.findIndex(item => compareWorkItems(item, file) > 0);
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, file);
+  }
+
+  // A survey item whose overview is stored (possibly by another process) is only served again for its upgrade
+  private upgradeIfSurveyed(file: FileQueueItem): void {
+    if (file.survey && this.surveyed.has(QueueManager.getWorkItemKey(file.path, file.chunk?.index))) {
+      file.survey = undefined;
+      file.reanalyze = true;
+    }
+  }
+
+  // at is only passed when replaying the journal
+  private recordClaim(agentId: string, at = new Date().toISOString()): void {
+    const stats = this.agentStats[agentId] ??= { claimed: 0, completed: 0, firstClaimAt: at };
+    stats.claimed++;
+  }
+
+  private recordCompletion(agentId: string, completion?: CompletedWorkItem, at = new Date().toISOString()): void {
+    const stats = this.agentStats[agentId] ??= { claimed: 0, completed: 0, firstClaimAt: at };
+    stats.completed++;
+    stats.lastCompletedAt = at;
     
-    await this.saveQueueState();
+    if (completion) {
+      const byCategory = stats.byCategory ??= {};
+      const categoryStats = byCategory[completion.category] ??= { files: 0, tokens: 0, durationMs: 0 };
+      categoryStats.files++;
+      categoryStats.tokens += completion.estimatedTokens;
+      categoryStats.durationMs += completion.durationMs;
+      
+      this.completions.push(completion);
+      this.completions = this.completions.slice(-MAX_COMPLETION_RECORDS);
+    }
   }
 
   getProgress(): CrystallizationProgress {
-    const totalFiles = this.queue.length + this.processed.size;
+    const skippedFiles = Object.keys(this.skipped).length;
+    const deadLetterFiles = Object.keys(this.deadLetter).length;
+    const totalFiles = this.queue.length + this.inFlight.size + this.processed.size + skippedFiles + deadLetterFiles;
     const processedFiles = this.processed.size;
     
     // Calculate token statistics
@@ -110,7 +998,8 @@ export class QueueManager {
       processedByCategory[category] = 0;
     });
     
-    const completionPercentage = totalFiles > 0 ? Math.round((processedFiles / totalFiles) * 100) : 0;
+    const settledFiles = processedFiles + skippedFiles + deadLetterFiles;
+    const completionPercentage = totalFiles > 0 ? Math.round((settledFiles / totalFiles) * 100) : 0;
     
     const progress: CrystallizationProgress = {
       totalFiles,
@@ -124,29 +1013,50 @@ export class QueueManager {
       filesByCategory,
       processedByCategory,
       completionPercentage,
+      scanInProgress: this.scanInProgress || undefined,
+      skippedFiles,
+      deferredFiles: this.queue.filter(file => file.deferrals).length,
+      retryingFiles: Object.keys(this.failures).length,
+      deadLetterFiles,
     };
     
-    if (processedFiles > 0 && this.startTime) {
+    const surveyPending = [...this.queue, ...this.inFlight.values()].filter(file => file.survey).length;
+    if (surveyPending + this.surveyed.size > 0) {
+      progress.survey = { selected: surveyPending + this.surveyed.size, completed: this.surveyed.size };
+    }
+    
+    // Recent token throughput when completions were timed; otherwise the session average per file
+    progress.estimatedTimeRemaining = SessionAnalyzer.estimateTimeRemaining(this.completions, this.getRemainingTokens());
+    if (progress.estimatedTimeRemaining === undefined && processedFiles > 0 && this.startTime) {
       const elapsedMs = Date.now() - this.startTime.getTime();
       const avgTimePerFile = elapsedMs / processedFiles;
-      const remainingFiles = totalFiles - processedFiles;
+      const remainingFiles = totalFiles - settledFiles;
       progress.estimatedTimeRemaining = Math.round(avgTimePerFile * remainingFiles);
     }
     
     return progress;
   }
 
+  getAnalytics(): SessionAnalytics {
+    return SessionAnalyzer.summarize(this.completions, this.agentStats, this.getRemainingTokens());
+  }
+
+  private getRemainingTokens(): number {
+    return [...this.queue, ...this.inFlight.values()].reduce((sum, file) => sum + file.estimatedTokens, 0);
+  }
+
   getRemainingFiles(): number {
-    return this.queue.length;
+    return this.queue.length + this.inFlight.size;
   }
 
   getProcessedCount(): number {
     return this.processed.size;
   }
 
-  async tryRecoverSession(repoPath: string, excludePatterns: string[]): Promise<boolean> {
+  // A recovered session's queue reflects the repository when it was saved; reconcileWithScan brings it up to date
+  async tryRecoverSession(repoPath: string, excludePatterns?: string[], includePatterns?: string[]): Promise<boolean> {
     try {
-      const queueStatePath = path.join(repoPath, '.context-crystallizer', 'processing-queue.json');
+      const queueStatePath = path.join(QueueManager.getSessionDirectory(repoPath, this.sessionName), QUEUE_STATE_FILE);
       const stateContent = await fs.readFile(queueStatePath, 'utf-8');
       const state: QueueState = JSON.parse(stateContent);
       
@@ -158,16 +1068,29 @@ export class QueueManager {
         return false; // Session too old
       }
       
-      // Check if exclude patterns match
-      if (!this.arraysEqual(state.excludePatterns, excludePatterns)) {
-        return false; // Configuration changed
-      }
+      // Changed exclude patterns are applied by the rescan after recovery rather than by starting over
+      const exclude = excludePatterns ?? state.excludePatterns;
+      const excludeChanged = !this.arraysEqual(state.excludePatterns, exclude);
+      
+      // A different include scope extends the session instead of starting over
+      const previousScope = state.includePatterns || [];
+      const scope = includePatterns ? IncludeScope.merge(previousScope, includePatterns) : IncludeScope.normalize(previousScope);
       
       // Restore session
       this.sessionId = state.sessionId;
       this.repoPath = state.repoPath;
-      this.excludePatterns = state.excludePatterns;
+      this.excludePatterns = exclude;
+      this.includePatterns = scope;
+      this.scopeExtended = !this.arraysEqual(scope, IncludeScope.normalize(previousScope));
       this.processed = new Set(state.processedFiles);
+      this.agentStats = state.agents || {};
+      this.completions = state.completions || [];
+      this.skipped = state.skipped || {};
+      this.failures = state.failures || {};
+      this.deadLetter = state.deadLetter || {};
+      this.removed = new Set(state.removedFiles || []);
+      this.surveyed = new Set(state.surveyedFiles || []);
+      this.revision = state.revision || 0;
       
       // Filter the restored queue to remove files with fresh contexts
       const restoredQueue = state.remainingQueue.map(item => ({
@@ -179,6 +1102,9 @@ export class QueueManager {
       for (const file of restoredQueue) {
         if (!(await this.isContextFresh(file))) {
           filteredQueue.push(file);
+        } else {
+          // Counted as processed so merging another process's saved queue does not bring it back
+          this.processed.add(QueueManager.getWorkItemKey(file.path, file.chunk?.index));
         }
       }
       
@@ -186,7 +1112,13 @@ export class QueueManager {
       this.startTime = new Date(state.startTime);
       this.queueStatePath = queueStatePath;
       
-      console.error(`Recovered session ${this.sessionId} with ${this.processed.size} processed files and ${this.queue.length} remaining.`);
+      console.error(`Recovered session ${this.sessionName} (${this.sessionId}) with ${this.processed.size} processed files and ${this.queue.length} remaining.`);
+      if (this.scopeExtended) {
+        console.error(`Extended session scope to ${scope.length > 0 ? scope.join(', ') : 'the whole repository'}`);
+      }
+      if (excludeChanged) {
+        console.error(`Exclude patterns changed to ${exclude.length > 0 ? exclude.join(', ') : 'none'}`);
+      }
       
       return true;
     } catch (_error) {
@@ -194,23 +1126,178 @@ export class QueueManager {
     }
   }
 
+  // Restores a session whose saved queue state was lost or corrupted by replaying its journal events over
+  // freshly scanned work items. Claims are not replayed: claimed items are queued again and only handed out
+  // once their claims lapse. Other processes working on the session adopt the rebuilt state
+  async rebuildFromJournal(files: FileQueueItem[], repoPath: string, session: JournalSession, events: JournalEvent[]): Promise<{ events: number; processed: number; queued: number; skipped: number; deadLetter: number; removed: number }> {
+    await this.openSession(repoPath);
+    
+    return this.withSessionLock(async () => {
+      const savedRevision = await this.loadSavedRevision();
+      
+      this.sessionId = session.sessionId;
+      this.excludePatterns = session.excludePatterns;
+      this.includePatterns = IncludeScope.normalize(session.includePatterns);
+      this.scopeExtended = false;
+      this.startTime = new Date(session.startTime);
+      this.processed.clear();
+      this.inFlight.clear();
+      this.agentStats = {};
+      this.completions = [];
+      this.skipped = {};
+      this.failures = {};
+      this.deadLetter = {};
+      this.removed.clear();
+      this.surveyed.clear();
+      this.currentFile = null;
+      
+      // Queue edits and retries change work items that only exist once the repository has been scanned
+      const changes = new Map<string, Array<(file: FileQueueItem) => void>>();
+      const change = (key: string, apply: (file: FileQueueItem) => void) => changes.set(key, [...(changes.get(key) || []), apply]);
+      const lower = (file: FileQueueItem) => { file.priority = Math.max(0, file.priority - RETRY_PRIORITY_PENALTY); };
+      let edits = 0;
+      
+      const replayed = events.filter(event => event.sessionId === session.sessionId);
+      for (const event of replayed) {
+        const key = event.file !== undefined ? path.join(repoPath, event.file) : '';
+        const agentId = event.agentId ?? ANONYMOUS_AGENT_ID;
+        const details = event.details || {};
+        
+        switch (event.type) {
+          case 'claim':
+            this.recordClaim(agentId, event.timestamp);
+            break;
+          case 'store': {
+            // A survey overview leaves the file queued for its upgrade
+            (details.survey ? this.surveyed : this.processed).add(key);
+            delete this.failures[key];
+            const completion = details.completion as CompletedWorkItem | undefined;
+            this.recordCompletion(agentId, completion, event.timestamp);
+            break;
+          }
+          case 'skip':
+            this.skipped[key] = { relativePath: event.file!, reason: String(details.reason ?? ''), agentId, skippedAt: event.timestamp };
+            break;
+          case 'defer':
+            change(key, file => {
+              file.deferrals = (file.deferrals || 0) + 1;
+              lower(file);
+            });
+            break;
+          case 'fail': {
+            const failure = { relativePath: event.file!, attempts: (this.failures[key]?.attempts || 0) + 1, lastError: String(details.reason ?? ''), lastAgentId: agentId, lastFailedAt: event.timestamp };
+            delete this.failures[key];
+            if (failure.attempts >= MAX_ATTEMPTS) {
+              this.deadLetter[key] = failure;
+            } else {
+              this.failures[key] = failure;
+              change(key, lower);
+            }
+            break;
+          }
+          case 'survey':
+            for (const file of Array.isArray(details.files) ? details.files : []) {
+              change(path.join(repoPath, String(file)), item => { item.survey = true; });
+            }
+            break;
+          case 'edit': {
+            edits++;
+            const keys = (Array.isArray(details.files) ? details.files : []).map(file => path.join(repoPath, String(file)));
+            for (const editedKey of keys) {
+              if (details.action === 'pin' || details.action === 'unpin') {
+                change(editedKey, file => { file.pinned = details.action === 'pin' || undefined; });
+              } else if (details.action === 'priority') {
+                const delta = Number(details.delta) || 0;
+                change(editedKey, file => { file.priority = Math.max(0, Math.min(100, file.priority + delta)); });
+              } else if (details.action === 'remove') {
+                this.removed.add(editedKey);
+                delete this.failures[editedKey];
+              } else if (details.action === 'requeue') {
+                this.processed.delete(editedKey);
+                this.removed.delete(editedKey);
+                delete this.skipped[editedKey];
+                delete this.failures[editedKey];
+                delete this.deadLetter[editedKey];
+                changes.set(editedKey, [file => { file.reanalyze = true; }]);
+              }
+            }
+            break;
+          }
+        }
+      }
+      
+      this.queue = [];
+      for (const file of files) {
+        const key = QueueManager.getWorkItemKey(file.path, file.chunk?.index);
+        if (this.isSettled(key)) continue;
+        
+        const item = { ...file };
+        (changes.get(key) || []).forEach(apply => apply(item));
+        this.upgradeIfSurveyed(item);
+        if (await this.isContextFresh(item)) {
+          this.processed.add(key);
+        } else {
+          this.queue.push(item);
+        }
+      }
+      this.queue.sort(compareWorkItems);
+      
+      this.revision = Math.max(savedRevision, edits) + 1;
+      await this.saveQueueState();
+      
+      const result = {
+        events: replayed.length,
+        processed: this.processed.size,
+        queued: this.queue.length,
+        skipped: Object.keys(this.skipped).length,
+        deadLetter: Object.keys(this.deadLetter).length,
+        removed: this.removed.size,
+      };
+      await this.logEvent('rebuild', { details: result });
+      return result;
+    });
+  }
+
+  // Revision of the saved queue state, when it can still be read
+  private async loadSavedRevision(): Promise<number> {
+    try {
+      const state: QueueState = JSON.parse(await fs.readFile(this.queueStatePath!, 'utf-8'));
+      return state.revision || 0;
+    } catch (_error) {
+      return 0;
+    }
+  }
+
+  // Callers hold the session lock
   private async saveQueueState(): Promise<void> {
     if (!this.queueStatePath || !this.repoPath) return;
     
+    await this.mergeSharedState();
+    
     const state: QueueState = {
       sessionId: this.sessionId,
       repoPath: this.repoPath,
-      totalFiles: this.queue.length + this.processed.size,
+      totalFiles: this.queue.length + this.inFlight.size + this.processed.size + Object.keys(this.skipped).length + Object.keys(this.deadLetter).length,
       processedFiles: Array.from(this.processed),
-      remainingQueue: this.queue,
+      // Claimed items are saved with the queue so a restarted session can hand them out once their claims lapse
+      remainingQueue: [...this.inFlight.values(), ...this.queue],
       startTime: this.startTime!,
       lastActivity: new Date(),
       excludePatterns: this.excludePatterns,
+      includePatterns: this.includePatterns,
+      agents: this.agentStats,
+      skipped: this.skipped,
+      failures: this.failures,
+      deadLetter: this.deadLetter,
+      removedFiles: Array.from(this.removed),
+      revision: this.revision,
+      completions: this.completions,
+      surveyedFiles: Array.from(this.surveyed),
     };
     
     try {
       await fs.mkdir(path.dirname(this.queueStatePath), { recursive: true });
-      await fs.writeFile(this.queueStatePath, JSON.stringify(state, null, 2), 'utf-8');
+      await FileLock.writeAtomic(this.queueStatePath, JSON.stringify(state, null, 2));
     } catch (_error) {
       console.error('Failed to save queue state:', _error);
     }
@@ -233,20 +1320,37 @@ export class QueueManager {
     }
   }
 
-  getSessionInfo(): { sessionId: string; startTime: Date | null; repoPath: string | null } {
+  getSessionInfo(): { name: string; sessionId: string; startTime: Date | null; repoPath: string | null; includePatterns: string[] } {
     return {
+      name: this.sessionName,
       sessionId: this.sessionId,
       startTime: this.startTime,
       repoPath: this.repoPath,
+      includePatterns: this.includePatterns,
     };
   }
 
+  getExcludePatterns(): string[] {
+    return this.excludePatterns;
+  }
+
+  getIncludePatterns(): string[] {
+    return this.includePatterns;
+  }
+
+  // True when a recovered session's include scope grew, so newly covered files still need to be queued
+  isScopeExtended(): boolean {
+    return this.scopeExtended;
+  }
+
   private async isContextFresh(file: FileQueueItem): Promise<boolean> {
-    if (!this.repoPath) return false;
+    if (!this.repoPath || file.reanalyze || file.survey) return false;
     
     // Build path to the crystallized context file
     const relativePath = path.isAbsolute(file.path) ? path.relative(this.repoPath, file.path) : file.path;
-    const contextPath = path.join(this.repoPath, '.context-crystallizer', 'context', `${relativePath}.context.md`);
+    const contextPath = file.chunk
+      ? path.join(this.repoPath, '.context-crystallizer', 'chunks', relativePath, `${file.chunk.index}.json`)
+      : path.join(this.repoPath, '.context-crystallizer', 'context', `${relativePath}.context.md`);
     
     try {
       const contextStats = await fs.stat(contextPath);
@@ -260,6 +1364,7 @@ export class QueueManager {
 
   // Claim management methods for concurrent agent support
 
+  // crystallization_timeout.txt holds the claim lease in seconds
   private async loadTimeoutConfig(): Promise<void> {
     if (!this.repoPath) return;
     
@@ -269,94 +1374,91 @@ export class QueueManager {
       const content = await fs.readFile(timeoutConfigPath, 'utf-8');
       const timeout = parseInt(content.trim());
       if (!isNaN(timeout) && timeout > 0) {
-        this.timeoutSeconds = timeout;
+        this.leaseSeconds = timeout;
       }
     } catch (_error) {
-      // Use default timeout if file doesn't exist or is invalid
-      this.timeoutSeconds = 900; // 15 minutes
+      // Use default lease if file doesn't exist or is invalid
+      this.leaseSeconds = DEFAULT_LEASE_SECONDS;
     }
   }
 
-  private async loadClaims(): Promise<Record<string, number>> {
+  // Claims written before agent identities and leases were tracked are bare timestamps or lack expiresAt
+  private async loadClaims(): Promise<Record<string, FileClaim>> {
     if (!this.claimsPath) return {};
     
     try {
       const content = await fs.readFile(this.claimsPath, 'utf-8');
-      return JSON.parse(content);
+      const raw: Record<string, Omit<FileClaim, 'expiresAt'> & { expiresAt?: number } | number> = JSON.parse(content);
+      return Object.fromEntries(Object.entries(raw).map(([key, claim]) => {
+        const normalized = typeof claim === 'number' ? { agentId: ANONYMOUS_AGENT_ID, claimedAt: claim, expiresAt: undefined } : claim;
+        return [key, { ...normalized, expiresAt: normalized.expiresAt ?? normalized.claimedAt + this.leaseSeconds * 1000 }];
+      }));
     } catch (_error) {
       // Return empty claims if file doesn't exist or is invalid
       return {};
     }
   }
 
-  private async saveClaims(claims: Record<string, number>): Promise<void> {
+  private async saveClaims(claims: Record<string, FileClaim>): Promise<void> {
     if (!this.claimsPath) return;
     
     try {
-      await fs.writeFile(this.claimsPath, JSON.stringify(claims, null, 2), 'utf-8');
+      await FileLock.writeAtomic(this.claimsPath, JSON.stringify(claims, null, 2));
     } catch (_error) {
       console.error('Failed to save claims:', _error);
     }
   }
 
-  private async claimFile(filePath: string): Promise<void> {
-    const claims = await this.loadClaims();
-    claims[filePath] = Date.now();
-    await this.saveClaims(claims);
+  private isClaimExpired(claim: FileClaim): boolean {
+    return Date.now() > claim.expiresAt;
   }
 
-  private async releaseClaim(filePath: string): Promise<void> {
+  private async releaseClaim(filePath: string): Promise<FileClaim | undefined> {
     const claims = await this.loadClaims();
-    const hadClaim = filePath in claims;
+    const claim = claims[filePath];
     delete claims[filePath];
     await this.saveClaims(claims);
     
-    if (hadClaim) {
-      console.error(`✓ Released claim for: ${filePath}`);
+    if (claim) {
+      console.error(`✓ Released claim for: ${filePath} (${claim.agentId})`);
     } else {
       console.error(`⚠ No claim to release for: ${filePath}`);
     }
+    return claim;
   }
 
-  private async isFileClaimed(filePath: string): Promise<boolean> {
-    const claims = await this.loadClaims();
-    const claimTime = claims[filePath];
-    
-    if (!claimTime) return false;
-    
-    const now = Date.now();
-    const timeoutMs = this.timeoutSeconds * 1000;
-    
-    // Check if claim has expired
-    if (now - claimTime > timeoutMs) {
-      // Claim expired, remove it
-      delete claims[filePath];
-      await this.saveClaims(claims);
-      return false;
-    }
-    
-    return true;
-  }
-
+  // Drops expired claims and returns work items whose claim is gone to the queue, unless another
+  // process stored their context in the meantime
   private async cleanupExpiredClaims(): Promise<void> {
     const claims = await this.loadClaims();
-    const now = Date.now();
-    const timeoutMs = this.timeoutSeconds * 1000;
     
-    const activeClaims: Record<string, number> = {};
-    let hasExpiredClaims = false;
+    const activeClaims: Record<string, FileClaim> = {};
+    const expired: JournalEvent[] = [];
     
-    for (const [filePath, claimTime] of Object.entries(claims)) {
-      if (now - claimTime < timeoutMs) {
-        activeClaims[filePath] = claimTime;
+    for (const [filePath, claim] of Object.entries(claims)) {
+      if (!this.isClaimExpired(claim)) {
+        activeClaims[filePath] = claim;
       } else {
-        hasExpiredClaims = true;
+        expired.push(this.createEvent('expire', { agentId: claim.agentId, file: filePath, details: { expiresAt: new Date(claim.expiresAt).toISOString() } }));
+        console.error(`⏰ Claim expired for: ${filePath} (${claim.agentId})`);
       }
     }
     
     // Only save if we found expired claims to clean up
-    if (hasExpiredClaims) {
+    if (expired.length > 0) {
       await this.saveClaims(activeClaims);
+      await this.journal?.append(expired);
+    }
+    
+    for (const [key, file] of this.inFlight) {
+      if (activeClaims[key]) continue;
+      
+      this.inFlight.delete(key);
+      if (await this.isContextFresh(file)) {
+        this.processed.add(key);
+      } else {
+        this.requeue(file);
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { FileQueueItem } from '../types/index.js';
+import { FileLock } from '../utils/file-lock.js';
+
+// Per-file analysis that does not depend on the file's location or workspace layout
+export type CachedScanItem = Omit<FileQueueItem, 'path' | 'relativePath' | 'lastModified' | 'package'>;
+
+interface ScanCacheEntry {
+  size: number;
+  mtimeMs: number;
+  items: CachedScanItem[];
+  undecodable?: string; // Why the file could not be decoded, so cache hits still report it
+}
+
+interface ScanCacheFile {
+  version: number;
+  configHash: string;
+  entries: Record<string, ScanCacheEntry>;
+}
+
+export class ScanCache {
+  // Bumped whenever the per-file analysis changes (2: token estimates from extracted content, 3: encoding detection)
+  private static readonly VERSION = 3;
+
+  private cachePath: string;
+  private configHash: string;
+  private previous: Record<string, ScanCacheEntry> = {};
+  private current: Record<string, ScanCacheEntry> = {};
+
+  constructor(repoPath: string, scannerConfig: unknown) {
+    this.cachePath = path.join(path.resolve(repoPath), '.context-crystallizer', 'scan-cache.json');
+    // Priorities, categories and chunking all derive from the config, so any change invalidates the cache
+    this.configHash = crypto.createHash('sha256').update(JSON.stringify(scannerConfig)).digest('hex');
+  }
+
+  async load(): Promise<void> {
+    this.previous = {};
+    this.current = {};
+
+    try {
+      const content = await fs.readFile(this.cachePath, 'utf-8');
+      const cache: ScanCacheFile = JSON.parse(content);
+      if (cache.version === ScanCache.VERSION && cache.configHash === this.configHash) {
+        this.previous = cache.entries || {};
+      }
+    } catch (_error) {
+      // No cache yet (or unreadable) - every file is analyzed from scratch
+    }
+  }
+
+  get(relativePath: string, size: number, mtimeMs: number): ScanCacheEntry | undefined {
+    const entry = this.previous[relativePath];
+    if (!entry || entry.size !== size || entry.mtimeMs !== mtimeMs) {
+      return undefined;
+    }
+
+    this.current[relativePath] = entry;
+    return entry;
+  }
+
+  set(relativePath: string, entry: ScanCacheEntry): void {
+    this.current[relativePath] = entry;
+  }
+
+  async save(): Promise<void> {
+    // Only entries seen during this scan are kept, so deleted files drop out of the cache
+    const cache: ScanCacheFile = {
+      version: ScanCache.VERSION,
+      configHash: this.configHash,
+      entries: this.current,
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.cachePath), { recursive: true });
+      // Several processes may scan at once; a rename never leaves a truncated cache behind
+      await FileLock.writeAtomic(this.cachePath, JSON.stringify(cache));
+    } catch (_error) {
+      console.error('Failed to save scan cache:', _error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { AgentStats, CompletedWorkItem, SessionAnalytics, ThroughputStats } from '../types/index.js';
+
+// Throughput is measured over the completions of the last half hour, or the last few when there are fewer
+const THROUGHPUT_WINDOW_MS = 30 * 60 * 1000;
+const MIN_WINDOW_COMPLETIONS = 5;
+
+// Stretches without any claimed work item at least this long count as idle
+const IDLE_GAP_MS = 5 * 60 * 1000;
+const MAX_LISTED = 10;
+
+export class SessionAnalyzer {
+  static summarize(completions: CompletedWorkItem[], agentStats: Record<string, AgentStats>, remainingTokens: number, now = Date.now()): SessionAnalytics {
+    const throughput = this.computeThroughput(completions, now);
+    const { gaps, totalIdleMs } = this.findIdleGaps(completions);
+
+    const byCategory = new Map<string, ThroughputStats>();
+    for (const stats of Object.values(agentStats)) {
+      for (const [category, categoryStats] of Object.entries(stats.byCategory || {})) {
+        byCategory.set(category, this.add(byCategory.get(category), categoryStats));
+      }
+    }
+
+    return {
+      throughput,
+      remainingTokens,
+      estimatedTimeRemaining: this.estimateTimeRemaining(completions, remainingTokens, now),
+      byCategory: Array.from(byCategory, ([category, stats]) => ({ category, ...this.describe(stats) }))
+        .sort((a, b) => b.files - a.files),
+      byAgent: Object.entries(agentStats)
+        .map(([agentId, stats]) => {
+          const total = Object.values(stats.byCategory || {}).reduce<ThroughputStats | undefined>((sum, entry) => this.add(sum, entry), undefined);
+          const described = this.describe(total ?? { files: 0, tokens: 0, durationMs: 0 });
+          return { agentId, ...described, avgTokensPerFile: described.files > 0 ? Math.round(described.tokens / described.files) : 0 };
+        })
+        .filter(agent => agent.files > 0)
+        .sort((a, b) => b.files - a.files),
+      slowestFiles: [...completions].sort((a, b) => b.durationMs - a.durationMs).slice(0, MAX_LISTED),
+      idleGaps: gaps.sort((a, b) => b.durationMs - a.durationMs).slice(0, MAX_LISTED),
+      totalIdleMs,
+    };
+  }
+
+  // Remaining estimated tokens at the recent token throughput, so a queue of large files takes longer than
+  // one of small files even when the file counts match
+  static estimateTimeRemaining(completions: CompletedWorkItem[], remainingTokens: number, now = Date.now()): number | undefined {
+    const throughput = this.computeThroughput(completions, now);
+    if (!throughput || throughput.tokens === 0) return undefined;
+    return Math.round(remainingTokens * throughput.spanMs / throughput.tokens);
+  }
+
+  // Wall-clock throughput from the first claim to the last store in the window, so parallel agents add up
+  private static computeThroughput(completions: CompletedWorkItem[], now: number): SessionAnalytics['throughput'] {
+    if (completions.length === 0) return undefined;
+
+    const sorted = [...completions].sort((a, b) => Date.parse(a.completedAt) - Date.parse(b.completedAt));
+    let window = sorted.filter(item => Date.parse(item.completedAt) >= now - THROUGHPUT_WINDOW_MS);
+    if (window.length < MIN_WINDOW_COMPLETIONS) {
+      window = sorted.slice(-MIN_WINDOW_COMPLETIONS);
+    }
+
+    const start = Math.min(...window.map(item => Date.parse(item.claimedAt)));
+    const end = Math.max(...window.map(item => Date.parse(item.completedAt)));
+    const spanMs = Math.max(1, end - start);
+    const tokens = window.reduce((sum, item) => sum + item.estimatedTokens, 0);
+    return {
+      files: window.length,
+      tokens,
+      spanMs,
+      filesPerHour: Math.round((window.length / spanMs) * 3600000 * 10) / 10,
+      tokensPerMinute: Math.round((tokens / spanMs) * 60000),
+    };
+  }
+
+  // Gaps between the claim-to-store intervals of all agents, merged so overlapping work is not idle
+  private static findIdleGaps(completions: CompletedWorkItem[]): { gaps: SessionAnalytics['idleGaps']; totalIdleMs: number } {
+    const intervals = completions
+      .map(item => [Date.parse(item.claimedAt), Date.parse(item.completedAt)])
+      .sort((a, b) => a[0] - b[0]);
+
+    const gaps: SessionAnalytics['idleGaps'] = [];
+    let totalIdleMs = 0;
+    let busyUntil: number | undefined;
+    for (const [start, end] of intervals) {
+      if (busyUntil !== undefined && start - busyUntil >= IDLE_GAP_MS) {
+        gaps.push({ from: new Date(busyUntil).toISOString(), to: new Date(start).toISOString(), durationMs: start - busyUntil });
+        totalIdleMs += start - busyUntil;
+      }
+      busyUntil = Math.max(busyUntil ?? end, end);
+    }
+    return { gaps, totalIdleMs };
+  }
+
+  private static add(total: ThroughputStats | undefined, stats: ThroughputStats): ThroughputStats {
+    return {
+      files: (total?.files || 0) + stats.files,
+      tokens: (total?.tokens || 0) + stats.tokens,
+      durationMs: (total?.durationMs || 0) + stats.durationMs,
+    };
+  }
+
+  private static describe(stats: ThroughputStats): { files: number; tokens: number; avgDurationMs: number; tokensPerMinute: number } {
+    return {
+      files: stats.files,
+      tokens: stats.tokens,
+      avgDurationMs: stats.files > 0 ? Math.round(stats.durationMs / stats.files) : 0,
+      tokensPerMinute: stats.durationMs > 0 ? Math.round((stats.tokens / stats.durationMs) * 60000) : 0,
+    };
+  }
+}
\ No newline at end of file
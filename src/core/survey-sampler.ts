@@ -0,0 +1,77 @@
+import path from 'path';
+import { FileQueueItem } from '../types/index.js';
+
+export type SurveyReason = 'readme' | 'entry-point' | 'category' | 'central' | 'directory';
+
+const README_PATTERN = /^readme(\.[a-z0-9]+)?$/i;
+const ENTRY_POINT_PATTERN = /^(index|main|app|server|cli|lib|mod|__init__|__main__)\.[a-z0-9]+$/i;
+// Entry points deeper than this are usually barrel files of one module rather than the way into the project
+const MAX_ENTRY_POINT_DEPTH = 2;
+
+export interface SurveySample {
+  files: Array<{ file: FileQueueItem; reason: SurveyReason }>;
+  directories: { covered: number; total: number };
+  categories: { covered: string[]; total: string[] };
+}
+
+export class SurveySampler {
+  // Picks the sample in order of importance until maxFiles: READMEs, entry points, the best file of each category,
+  // the most central files (absolute paths, most central first), then the best file of each directory, shallowest
+  // first. "Best" is the highest priority; chunked files are left to the regular queue
+  static select(files: FileQueueItem[], options: { maxFiles: number; centralFiles: string[] }): SurveySample {
+    const candidates = files.filter(file => !file.chunk).sort((a, b) => b.priority - a.priority);
+    const selected = new Map<string, { file: FileQueueItem; reason: SurveyReason }>();
+    const add = (file: FileQueueItem | undefined, reason: SurveyReason) => {
+      if (file && selected.size < options.maxFiles && !selected.has(file.path)) {
+        selected.set(file.path, { file, reason });
+      }
+    };
+    const byDepth = (a: FileQueueItem, b: FileQueueItem) => this.depth(a.relativePath) - this.depth(b.relativePath);
+
+    candidates.filter(file => README_PATTERN.test(path.basename(file.relativePath))).sort(byDepth).forEach(file => add(file, 'readme'));
+    candidates
+      .filter(file => ENTRY_POINT_PATTERN.test(path.basename(file.relativePath)) && this.depth(file.relativePath) <= MAX_ENTRY_POINT_DEPTH)
+      .sort(byDepth)
+      .forEach(file => add(file, 'entry-point'));
+
+    const categories = Array.from(new Set(files.map(file => file.category))).sort();
+    for (const category of categories) {
+      if (!Array.from(selected.values()).some(entry => entry.file.category === category)) {
+        add(candidates.find(file => file.category === category), 'category');
+      }
+    }
+
+    const byPath = new Map(candidates.map(file => [file.path, file]));
+    options.centralFiles.forEach(filePath => add(byPath.get(filePath), 'central'));
+
+    const directories = new Map<string, FileQueueItem[]>();
+    for (const file of candidates) {
+      const directory = path.dirname(file.relativePath);
+      directories.set(directory, [...(directories.get(directory) || []), file]);
+    }
+    const covered = () => new Set(Array.from(selected.values(), entry => path.dirname(entry.file.relativePath)));
+    const alreadyCovered = covered();
+    Array.from(directories.keys())
+      .filter(directory => !alreadyCovered.has(directory))
+      .sort((a, b) => this.depth(a) - this.depth(b) || a.localeCompare(b))
+      .forEach(directory => add(directories.get(directory)![0], 'directory'));
+
+    const sample = Array.from(selected.values());
+    return {
+      files: sample,
+      directories: {
+        covered: covered().size,
+        total: new Set(files.map(file => path.dirname(file.relativePath))).size,
+      },
+      categories: {
+        covered: Array.from(new Set(sample.map(entry => entry.file.category))).sort(),
+        total: categories,
+      },
+    };
+  }
+
+  private static depth(relativePath: string): number {
+    const normalized = relativePath.split(path.sep).join('/');
+    return normalized === '.' ? 0 : normalized.split('/').length;
+  }
+}
\ No newline at end of file
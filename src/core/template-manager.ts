@@ -84,7 +84,8 @@ export class TemplateManager {
       relatedContexts: context.relatedContexts || [],
       errorHandling: context.errorHandling || [],
       integrationPoints: context.integrationPoints || [],
-      crossReferences: context.crossReferences || []
+      crossReferences: context.crossReferences || [],
+      chunks: context.chunks || []
     };
 
     // Add computed length properties for conditionals
@@ -95,6 +96,7 @@ export class TemplateManager {
     (templateData as any)['errorHandling.length'] = templateData.errorHandling.length;
     (templateData as any)['integrationPoints.length'] = templateData.integrationPoints.length;
     (templateData as any)['crossReferences.length'] = templateData.crossReferences.length;
+    (templateData as Record<string, unknown>)['chunks.length'] = templateData.chunks.length;
 
     // Render with Mustache
     const rendered = Mustache.render(template.outputTemplate, templateData);
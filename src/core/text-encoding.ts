@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import { TextDecoder } from 'util';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type EncodingDetection =
+  | { kind: 'text'; encoding: TextEncoding; bom: boolean }
+  | { kind: 'binary' }
+  | { kind: 'undecodable'; reason: string };
+
+// Windows-1252 differs from ISO-8859-1 only in 0x80-0x9F; the five unassigned bytes map to C1 controls like browsers do
+const WINDOWS_1252_HIGH = [
+  0x20AC, 0x0081, 0x201A, 0x0192, 0x201E, 0x2026, 0x2020, 0x2021, 0x02C6, 0x2030, 0x0160, 0x2039, 0x0152, 0x008D, 0x017D, 0x008F,
+  0x0090, 0x2018, 0x2019, 0x201C, 0x201D, 0x2022, 0x2013, 0x2014, 0x02DC, 0x2122, 0x0161, 0x203A, 0x0153, 0x009D, 0x017E, 0x0178,
+];
+
+// Well-formed multi-byte UTF-8 sequences, matched against a latin1 view of the bytes
+const UTF8_MULTIBYTE = /[\xC2-\xDF][\x80-\xBF]|[\xE0-\xEF][\x80-\xBF]{2}|[\xF0-\xF4][\x80-\xBF]{3}/;
+
+const UTF16_SAMPLE_BYTES = 4096;
+const HEAD_BYTES = 8192;
+const MAX_CONTROL_RATIO = 0.1;
+
+export class TextEncodingDetector {
+  // complete=false means the buffer is only the head of the file and may end mid-character
+  static detect(buffer: Buffer, complete = true): EncodingDetection {
+    if (buffer.length === 0) {
+      return { kind: 'text', encoding: 'utf-8', bom: false };
+    }
+
+    // UTF-32 BOMs must be checked before UTF-16 because FF FE 00 00 also starts with the UTF-16LE BOM
+    if (this.startsWith(buffer, [0xFF, 0xFE, 0x00, 0x00]) || this.startsWith(buffer, [0x00, 0x00, 0xFE, 0xFF])) {
+      return { kind: 'undecodable', reason: 'UTF-32 is not supported' };
+    }
+    if (this.startsWith(buffer, [0xEF, 0xBB, 0xBF])) {
+      return this.isValid(buffer, 'utf-8', complete)
+        ? { kind: 'text', encoding: 'utf-8', bom: true }
+        : { kind: 'undecodable', reason: 'invalid UTF-8 after a UTF-8 byte order mark' };
+    }
+    if (this.startsWith(buffer, [0xFF, 0xFE])) {
+      return this.checkUtf16(buffer, 'utf-16le', true, complete);
+    }
+    if (this.startsWith(buffer, [0xFE, 0xFF])) {
+      return this.checkUtf16(buffer, 'utf-16be', true, complete);
+    }
+
+    if (buffer.includes(0)) {
+      // BOM-less UTF-16: ASCII-range text leaves every other byte zero
+      const encoding = this.guessUtf16(buffer);
+      return encoding ? this.checkUtf16(buffer, encoding, false, complete) : { kind: 'binary' };
+    }
+
+    if (this.controlCharacterRatio(buffer) > MAX_CONTROL_RATIO) {
+      return { kind: 'binary' };
+    }
+
+    if (this.isValid(buffer, 'utf-8', complete)) {
+      return { kind: 'text', encoding: 'utf-8', bom: false };
+    }
+
+    // Valid UTF-8 sequences next to invalid bytes means the file mixes encodings; any choice would mangle part of it
+    if (UTF8_MULTIBYTE.test(buffer.toString('latin1'))) {
+      return { kind: 'undecodable', reason: 'mixes UTF-8 with a legacy 8-bit encoding' };
+    }
+    return { kind: 'text', encoding: 'windows-1252', bom: false };
+  }
+
+  // Transcodes a complete file to a UTF-8 string (without BOM); throws for binary or undecodable content
+  static decode(buffer: Buffer): { content: string; encoding: TextEncoding } {
+    const detection = this.detect(buffer);
+    if (detection.kind === 'binary') {
+      throw new Error('binary content');
+    }
+    if (detection.kind === 'undecodable') {
+      throw new Error(detection.reason);
+    }
+
+    return { content: this.decodeAs(buffer, detection.encoding, true), encoding: detection.encoding };
+  }
+
+  // Best-effort decoding of a file head for sniffing (language, generated markers); '' for binary content
+  static decodeSample(buffer: Buffer, complete = false): string {
+    const detection = this.detect(buffer, complete);
+    return detection.kind === 'text' ? this.decodeAs(buffer, detection.encoding, false) : '';
+  }
+
+  // Encoding of a file on disk judged from its head; undefined when it is unreadable, binary or undecodable
+  static async detectFile(fullPath: string): Promise<TextEncoding | undefined> {
+    try {
+      const detection = this.detect(await this.readHead(fullPath, HEAD_BYTES), false);
+      return detection.kind === 'text' ? detection.encoding : undefined;
+    } catch (_error) {
+      return undefined;
+    }
+  }
+
+  static async readHead(fullPath: string, bytes: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(bytes);
+    const fd = await fs.open(fullPath, 'r');
+
+    try {
+      const { bytesRead } = await fd.read(buffer, 0, bytes, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await fd.close();
+    }
+  }
+
+  private static decodeAs(buffer: Buffer, encoding: TextEncoding, fatal: boolean): string {
+    if (encoding === 'windows-1252') {
+      return buffer.toString('latin1').replace(/[\x80-\x9F]/g, char => String.fromCharCode(WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]));
+    }
+
+    // TextDecoder strips the BOM; non-fatal decoding tolerates a sample cut off mid-character
+    return new TextDecoder(encoding, { fatal }).decode(buffer);
+  }
+
+  private static checkUtf16(buffer: Buffer, encoding: 'utf-16le' | 'utf-16be', bom: boolean, complete: boolean): EncodingDetection {
+    if (complete && buffer.length % 2 !== 0) {
+      return { kind: 'undecodable', reason: `${encoding.toUpperCase()} content with an odd number of bytes` };
+    }
+    if (!this.isValid(buffer, encoding, complete)) {
+      return { kind: 'undecodable', reason: `invalid ${encoding.toUpperCase()} (unpaired surrogates)` };
+    }
+    return { kind: 'text', encoding, bom };
+  }
+
+  private static guessUtf16(buffer: Buffer): 'utf-16le' | 'utf-16be' | undefined {
+    const length = Math.min(buffer.length, UTF16_SAMPLE_BYTES) & ~1;
+    if (length < 4) return undefined;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < length; i += 2) {
+      if (buffer[i] === 0) evenZeros++;
+      if (buffer[i + 1] === 0) oddZeros++;
+    }
+
+    const pairs = length / 2;
+    if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+    if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+    return undefined;
+  }
+
+  private static isValid(buffer: Buffer, encoding: TextEncoding, complete: boolean): boolean {
+    try {
+      // stream: true leaves a truncated trailing character pending instead of failing
+      const decoder = new TextDecoder(encoding, { fatal: true });
+      decoder.decode(buffer, { stream: !complete });
+      return true;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  private static controlCharacterRatio(buffer: Buffer): number {
+    let controls = 0;
+    for (const byte of buffer) {
+      // Tab, line feed, vertical tab, form feed, carriage return and escape (ANSI colors) are normal in text
+      if ((byte < 0x20 && (byte < 0x09 || byte > 0x0D) && byte !== 0x1B) || byte === 0x7F) {
+        controls++;
+      }
+    }
+    return controls / buffer.length;
+  }
+
+  private static startsWith(buffer: Buffer, bytes: number[]): boolean {
+    return buffer.length >= bytes.length && bytes.every((byte, index) => buffer[index] === byte);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { WorkspacePackage } from '../types/index.js';
+
+export class WorkspaceDetector {
+  private repoPath: string;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  async detectPackages(): Promise<WorkspacePackage[]> {
+    const packages: WorkspacePackage[] = [
+      ...await this.detectNpmWorkspaces(),
+      ...await this.detectPnpmWorkspaces(),
+      ...await this.detectCargoWorkspace(),
+      ...await this.detectGoWorkspace(),
+    ];
+
+    // The same directory can be declared by several manifests (e.g. package.json and pnpm-workspace.yaml)
+    const unique = new Map<string, WorkspacePackage>();
+    for (const pkg of packages) {
+      if (!unique.has(pkg.relativePath)) {
+        unique.set(pkg.relativePath, pkg);
+      }
+    }
+
+    return Array.from(unique.values()).sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  static findOwningPackage(relativePath: string, packages: WorkspacePackage[]): WorkspacePackage | undefined {
+    const normalized = relativePath.split(path.sep).join('/');
+    let owner: WorkspacePackage | undefined;
+
+    // Longest matching root wins so nested packages own their own files
+    for (const pkg of packages) {
+      if (normalized === pkg.relativePath || normalized.startsWith(`${pkg.relativePath}/`)) {
+        if (!owner || pkg.relativePath.length > owner.relativePath.length) {
+          owner = pkg;
+        }
+      }
+    }
+
+    return owner;
+  }
+
+  private async detectNpmWorkspaces(): Promise<WorkspacePackage[]> {
+    const rootManifest = await this.readJson(path.join(this.repoPath, 'package.json'));
+    const workspaces = isRecord(rootManifest) ? rootManifest.workspaces : undefined;
+    if (!workspaces) return [];
+
+    // "workspaces" is either an array or { packages: [...] } (yarn classic)
+    const declared = Array.isArray(workspaces) ? workspaces : isRecord(workspaces) ? workspaces.packages : undefined;
+    const patterns = Array.isArray(declared) ? declared.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of await this.expandMemberPatterns(patterns, 'package.json')) {
+      const manifest = await this.readJson(path.join(this.repoPath, dir, 'package.json'));
+      packages.push({ name: getPackageName(manifest) || dir, relativePath: dir, type: 'npm' });
+    }
+
+    return packages;
+  }
+
+  private async detectPnpmWorkspaces(): Promise<WorkspacePackage[]> {
+    const content = await this.readText(path.join(this.repoPath, 'pnpm-workspace.yaml'));
+    if (!content) return [];
+
+    // Minimal YAML reading: collect list items under the top-level "packages:" key
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split('\n')) {
+      if (/^packages\s*:/.test(line)) {
+        inPackages = true;
+        continue;
+      }
+      if (inPackages) {
+        const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/);
+        if (item) {
+          patterns.push(item[1]);
+        } else if (/^\S/.test(line)) {
+          inPackages = false;
+        }
+      }
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of await this.expandMemberPatterns(patterns, 'package.json')) {
+      const manifest = await this.readJson(path.join(this.repoPath, dir, 'package.json'));
+      packages.push({ name: getPackageName(manifest) || dir, relativePath: dir, type: 'pnpm' });
+    }
+
+    return packages;
+  }
+
+  private async detectCargoWorkspace(): Promise<WorkspacePackage[]> {
+    const content = await this.readText(path.join(this.repoPath, 'Cargo.toml'));
+    if (!content) return [];
+
+    const workspaceSection = this.extractTomlSection(content, 'workspace');
+    if (workspaceSection === null) return [];
+
+    const membersMatch = workspaceSection.match(/members\s*=\s*\[([\s\S]*?)\]/);
+    const patterns = membersMatch
+      ? Array.from(membersMatch[1].matchAll(/["']([^"']+)["']/g)).map(m => m[1])
+      : [];
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of await this.expandMemberPatterns(patterns, 'Cargo.toml')) {
+      const memberManifest = await this.readText(path.join(this.repoPath, dir, 'Cargo.toml'));
+      const packageSection = memberManifest ? this.extractTomlSection(memberManifest, 'package') : null;
+      const nameMatch = packageSection?.match(/^\s*name\s*=\s*["']([^"']+)["']/m);
+      packages.push({ name: nameMatch?.[1] || dir, relativePath: dir, type: 'cargo' });
+    }
+
+    return packages;
+  }
+
+  private async detectGoWorkspace(): Promise<WorkspacePackage[]> {
+    const content = await this.readText(path.join(this.repoPath, 'go.work'));
+    if (!content) return [];
+
+    // Both "use ./dir" and "use ( ./a ./b )" forms are valid
+    const dirs: string[] = [];
+    const blockRegex = /^use\s*\(([\s\S]*?)\)/gm;
+    let match;
+    while ((match = blockRegex.exec(content)) !== null) {
+      dirs.push(...match[1].split('\n').map(line => line.replace(/\/\/.*$/, '').trim()).filter(Boolean));
+    }
+    const singleRegex = /^use\s+([^\s(]+)/gm;
+    while ((match = singleRegex.exec(content)) !== null) {
+      dirs.push(match[1]);
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of dirs) {
+      const relativePath = this.normalizeDir(dir);
+      const goMod = await this.readText(path.join(this.repoPath, relativePath, 'go.mod'));
+      if (goMod === null) continue;
+
+      const moduleMatch = goMod.match(/^module\s+(\S+)/m);
+      packages.push({ name: moduleMatch?.[1] || relativePath, relativePath, type: 'go' });
+    }
+
+    return packages;
+  }
+
+  private async expandMemberPatterns(patterns: string[], manifestFile: string): Promise<string[]> {
+    const included = new Set<string>();
+    const excluded = new Set<string>();
+
+    for (const rawPattern of patterns) {
+      const negated = rawPattern.startsWith('!');
+      const pattern = this.normalizeDir(negated ? rawPattern.slice(1) : rawPattern);
+      if (!pattern) continue;
+
+      const manifests = await glob(`${pattern}/${manifestFile}`, {
+        cwd: this.repoPath,
+        ignore: ['**/node_modules/**', '**/target/**'],
+        posix: true,
+      });
+
+      for (const manifest of manifests) {
+        const dir = path.posix.dirname(manifest.split(path.sep).join('/'));
+        if (dir === '.') continue;
+        (negated ? excluded : included).add(dir);
+      }
+    }
+
+    return Array.from(included).filter(dir => !excluded.has(dir));
+  }
+
+  private extractTomlSection(content: string, sectionName: string): string | null {
+    const lines = content.split('\n');
+    const start = lines.findIndex(line => line.trim() === `[${sectionName}]`);
+    if (start === -1) return null;
+
+    const sectionLines: string[] = [];
+    for (let i = start + 1; i < lines.length; i++) {
+      // Stop at the next table header, but keep multi-line arrays whose items start with '['
+      if (/^\s*\[[\w.-]+\]\s*$/.test(lines[i])) break;
+      sectionLines.push(lines[i]);
+    }
+
+    return sectionLines.join('\n');
+  }
+
+  private normalizeDir(dir: string): string {
+    return dir.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  }
+
+  private async readText(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  private async readJson(filePath: string): Promise<unknown> {
+    const content = await this.readText(filePath);
+    if (content === null) return null;
+
+    try {
+      return JSON.parse(content);
+    } catch (_error) {
+      return null;
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPackageName(manifest: unknown): string | undefined {
+  return isRecord(manifest) && typeof manifest.name === 'string' ? manifest.name : undefined;
+}
\ No newline at end of file
@@ -4,7 +4,9 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { CrystallizerCore } from './shared/crystallizer-core.js';
+import { CoordinatorOptions, CrystallizerCore, StoredContextEntry } from './shared/crystallizer-core.js';
+import { QueueManager } from './core/queue-manager.js';
+import { WorkItemOutcome } from './types/index.js';
 
 const server = new Server(
   {
@@ -19,7 +21,129 @@ const server = new Server(
   }
 );
 
-let crystallizerCore: CrystallizerCore;
+// Shared by store_crystallized_context and each entry of store_crystallized_contexts
+const STORED_CONTEXT_PROPERTIES = {
+  filePath: {
+    type: 'string',
+    description: 'Path to the source file',
+  },
+  context: {
+    type: 'object',
+    properties: {
+      purpose: { type: 'string', description: 'Primary purpose and functionality' },
+      keyTerms: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Key searchable terms, concepts, entities for AI search and discovery',
+      },
+      dependencies: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Dependencies and imports',
+      },
+      patterns: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Implementation patterns and conventions',
+      },
+      relatedContexts: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Related files and contexts',
+      },
+      aiGuidance: {
+        type: 'string',
+        description: 'Specific guidance for AI agents working with this code',
+      },
+      errorHandling: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Error handling patterns and strategies',
+      },
+      integrationPoints: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Key integration points with other systems',
+      },
+    },
+    required: ['purpose', 'keyTerms'],
+  },
+  fileContent: {
+    type: 'string',
+    description: 'Original file content for cross-reference analysis',
+  },
+  fileMetadata: {
+    type: 'object',
+    properties: {
+      complexity: {
+        type: 'string',
+        enum: ['low', 'medium', 'high'],
+        description: 'File complexity level',
+      },
+      category: {
+        type: 'string',
+        enum: ['config', 'source', 'test', 'docs', 'other'],
+        description: 'File category',
+      },
+      estimatedTokens: {
+        type: 'number',
+        description: 'Estimated token count for the file',
+      },
+      language: {
+        type: 'string',
+        description: 'Detected language from the file metadata (e.g. "typescript", "shell", "dockerfile")',
+      },
+      encoding: {
+        type: 'string',
+        description: 'Source encoding from the file metadata (e.g. "utf-8", "utf-16le", "windows-1252")',
+      },
+    },
+  },
+  chunk: {
+    type: 'object',
+    description: 'The chunk descriptor returned by get_next_file_to_crystallize for large files, passed back unchanged. Chunk contexts are merged into one file context.',
+    properties: {
+      index: { type: 'number' },
+      total: { type: 'number' },
+      startLine: { type: 'number' },
+      endLine: { type: 'number' },
+      label: { type: 'string' },
+    },
+    required: ['index', 'total', 'startLine', 'endLine', 'label'],
+  },
+};
+
+// Shared by the tools that work on a crystallization session
+const SESSION_PROPERTY = {
+  type: 'string',
+  description: 'Named crystallization session (e.g. "payments-refresh") with its own queue, scope and progress; all sessions share the stored contexts. Defaults to "default"; named sessions are created by init_crystallization',
+};
+
+// Shared by the queue edit tools
+const QUEUE_EDIT_PATTERNS = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'File paths, directories or globs relative to the repository (e.g. ["src/auth", "**/*.sql"]); "**/*" matches every file',
+};
+
+// Lists the files a queue edit changed, keeping long edits readable
+function formatFileList(files: string[]): string {
+  const listed = files.slice(0, 20).map(file => `\n   ${file}`).join('');
+  return files.length > 20 ? `${listed}\n   ... and ${files.length - 20} more` : listed;
+}
+
+// One core per named session, created on first use
+const crystallizerCores = new Map<string, CrystallizerCore>();
+// Set when the server runs as a client of a coordinator on another machine
+let coordinator: CoordinatorOptions | undefined;
+
+function getCrystallizerCore(session?: string): CrystallizerCore {
+  const name = QueueManager.normalizeSessionName(session);
+  if (!crystallizerCores.has(name)) {
+    crystallizerCores.set(name, new CrystallizerCore(name, coordinator));
+  }
+  return crystallizerCores.get(name)!;
+}
 
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
@@ -37,6 +161,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
+          session: SESSION_PROPERTY,
           repoPath: {
             type: 'string',
             description: 'Path to the repository to crystallize',
@@ -44,19 +169,30 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           exclude: {
             type: 'array',
             items: { type: 'string' },
-            description: 'Additional patterns to exclude from crystallization. Note: .gitignore patterns are automatically respected, plus defaults: node_modules, .git, dist, build',
+            description: 'Additional patterns to exclude from crystallization. Note: all .gitignore files (including nested ones), .git/info/exclude and .crystallizerignore are automatically respected, plus defaults: node_modules, .git, dist, build',
             default: ['node_modules', '.git', 'dist', 'build'],
           },
+          include: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Restrict crystallization to matching repository paths (globs such as "services/payments/**" or plain directories). Cross-references still resolve against the whole repository. Initializing again with different globs extends the existing session instead of resetting it.',
+          },
         },
         required: ['repoPath'],
       },
     },
     {
       name: 'get_next_file_to_crystallize',
-      description: 'Get the next file from the repository for crystallization into AI-consumable context. Returns file content and metadata for AI analysis.',
+      description: 'Get the next file from the repository for crystallization into AI-consumable context. Returns file content and metadata for AI analysis. Large files are handed out one chunk at a time with a "chunk" descriptor to pass back when storing. In dependency order mode (config.json "dependencyOrder"), files come leaves-first along the import graph and "dependencyContexts" holds the stored contexts of the file\'s direct imports - use them to describe what the file does with its imports. During the survey pass (config.json "survey"), sampled files come first with "survey": true and "template": "overview" - store a short overview; the file is handed out again later for its full context.',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          session: SESSION_PROPERTY,
+          agentId: {
+            type: 'string',
+            description: 'Stable identifier of the calling agent (e.g., "agent-1") when several agents crystallize in parallel. The claim is recorded under this ID and the same ID must be passed to store_crystallized_context',
+          },
+        },
       },
     },
     {
@@ -65,84 +201,221 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
-          filePath: {
+          session: SESSION_PROPERTY,
+          ...STORED_CONTEXT_PROPERTIES,
+          agentId: {
             type: 'string',
-            description: 'Path to the source file',
-          },
-          context: {
-            type: 'object',
-            properties: {
-              purpose: { type: 'string', description: 'Primary purpose and functionality' },
-              keyTerms: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Key searchable terms, concepts, entities for AI search and discovery',
-              },
-              dependencies: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Dependencies and imports',
-              },
-              patterns: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Implementation patterns and conventions',
-              },
-              relatedContexts: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Related files and contexts',
-              },
-              aiGuidance: {
-                type: 'string',
-                description: 'Specific guidance for AI agents working with this code',
-              },
-              errorHandling: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Error handling patterns and strategies',
-              },
-              integrationPoints: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Key integration points with other systems',
-              },
-            },
-            required: ['purpose', 'keyTerms'],
+            description: 'The agentId used with get_next_file_to_crystallize. Stores for a file claimed by a different agent are rejected',
           },
-          fileContent: {
+        },
+        required: ['filePath', 'context'],
+      },
+    },
+    {
+      name: 'get_next_files_to_crystallize',
+      description: 'Batch variant of get_next_file_to_crystallize for agents with large context windows: claims several files at once, up to maxFiles and within a maxTokens budget of estimated content. Files from the same directory are grouped so related code can be analyzed together. Store the results with store_crystallized_contexts.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          agentId: {
             type: 'string',
-            description: 'Original file content for cross-reference analysis',
-          },
-          fileMetadata: {
-            type: 'object',
-            properties: {
-              complexity: {
-                type: 'string',
-                enum: ['low', 'medium', 'high'],
-                description: 'File complexity level',
-              },
-              category: {
-                type: 'string',
-                enum: ['config', 'source', 'test', 'docs', 'other'],
-                description: 'File category',
-              },
-              estimatedTokens: {
-                type: 'number',
-                description: 'Estimated token count for the file',
-              },
+            description: 'Stable identifier of the calling agent; pass the same ID when storing',
+          },
+          maxFiles: {
+            type: 'number',
+            description: 'Maximum number of files (or chunks) to claim (default: 10, at most 50)',
+            default: 10,
+          },
+          maxTokens: {
+            type: 'number',
+            description: 'Token budget for the estimated size of all claimed files together; the first file is always included',
+          },
+        },
+      },
+    },
+    {
+      name: 'store_crystallized_contexts',
+      description: 'Store several crystallized contexts in one call, e.g. for files claimed with get_next_files_to_crystallize. Each entry takes the same fields as store_crystallized_context; entries that fail are reported without affecting the others.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          contexts: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: STORED_CONTEXT_PROPERTIES,
+              required: ['filePath', 'context'],
             },
           },
+          agentId: {
+            type: 'string',
+            description: 'The agentId used when claiming the files',
+          },
         },
-        required: ['filePath', 'context'],
+        required: ['contexts'],
+      },
+    },
+    {
+      name: 'report_crystallization_outcome',
+      description: 'End a claim without storing a context. "skip" permanently excludes the file (e.g. nothing meaningful to crystallize), "defer" puts it back in the queue behind the files not deferred as often (e.g. needs context from files not crystallized yet), and "fail" records a failed attempt; files that fail 3 times move to a dead-letter list shown by get_crystallization_progress.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          filePath: {
+            type: 'string',
+            description: 'Path of the claimed file',
+          },
+          outcome: {
+            type: 'string',
+            enum: ['skip', 'defer', 'fail'],
+            description: 'What happened to the file',
+          },
+          reason: {
+            type: 'string',
+            description: 'Why the file was skipped, deferred or failed',
+          },
+          agentId: {
+            type: 'string',
+            description: 'The agentId the file was claimed with',
+          },
+          chunkIndex: {
+            type: 'number',
+            description: 'Chunk index for chunked files',
+          },
+        },
+        required: ['filePath', 'outcome', 'reason'],
+      },
+    },
+    {
+      name: 'extend_claim',
+      description: 'Heartbeat for files being crystallized. Claims are short leases (see "claim.leaseSeconds" from get_next_file_to_crystallize); call this periodically while analyzing a large file so no other agent takes it over. Without filePath, every claim held by the agent is renewed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          agentId: {
+            type: 'string',
+            description: 'The agentId the file was claimed with',
+          },
+          filePath: {
+            type: 'string',
+            description: 'Path of the claimed file (omit to renew all claims of the agent)',
+          },
+          chunkIndex: {
+            type: 'number',
+            description: 'Chunk index for chunked files',
+          },
+          seconds: {
+            type: 'number',
+            description: 'Lease length from now in seconds (default: the configured lease, at most 3600)',
+          },
+        },
+      },
+    },
+    {
+      name: 'release_claim',
+      description: 'Abandon a claimed file without storing a context, returning it to the queue immediately so another agent can pick it up.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          filePath: {
+            type: 'string',
+            description: 'Path of the claimed file',
+          },
+          agentId: {
+            type: 'string',
+            description: 'The agentId the file was claimed with',
+          },
+          chunkIndex: {
+            type: 'number',
+            description: 'Chunk index for chunked files',
+          },
+        },
+        required: ['filePath'],
+      },
+    },
+    {
+      name: 'get_crystallization_queue',
+      description: 'List the remaining crystallization work in the order it will be handed out, with priorities, pins and the files currently claimed by agents.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          limit: {
+            type: 'number',
+            description: 'Maximum queued files to list (default: 50)',
+          },
+        },
+      },
+    },
+    {
+      name: 'pin_queued_files',
+      description: 'Move queued files to the front of the queue so they are crystallized next, or remove their pin.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          patterns: QUEUE_EDIT_PATTERNS,
+          unpin: {
+            type: 'boolean',
+            description: 'Remove the pin instead (default: false)',
+          },
+        },
+        required: ['patterns'],
+      },
+    },
+    {
+      name: 'adjust_queue_priority',
+      description: 'Raise or lower the priority (0-100) of queued files, e.g. everything in one directory.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          patterns: QUEUE_EDIT_PATTERNS,
+          delta: {
+            type: 'number',
+            description: 'Priority change, e.g. 20 or -20',
+          },
+        },
+        required: ['patterns', 'delta'],
+      },
+    },
+    {
+      name: 'requeue_files',
+      description: 'Queue already crystallized, skipped or dead-lettered files again so their contexts are re-analyzed, even when the stored context is up to date.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          patterns: QUEUE_EDIT_PATTERNS,
+        },
+        required: ['patterns'],
+      },
+    },
+    {
+      name: 'remove_queued_files',
+      description: 'Take queued files out of the crystallization session; they are not queued again unless requeued with requeue_files.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          session: SESSION_PROPERTY,
+          patterns: QUEUE_EDIT_PATTERNS,
+        },
+        required: ['patterns'],
       },
     },
     {
       name: 'get_crystallization_progress',
-      description: 'Get the current progress of the crystallization process, including files processed, remaining files, and overall completion status.',
+      description: 'Get the current progress of the crystallization process, including files processed, remaining files, and overall completion status. "estimatedTimeRemaining" (milliseconds) comes from the recent token throughput; "analytics" breaks the session down by category and agent and lists the slowest files and idle gaps.',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          session: SESSION_PROPERTY,
+        },
       },
     },
     {
@@ -165,6 +438,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             enum: ['config', 'source', 'test', 'docs', 'other'],
             description: 'Filter by file category',
           },
+          package: {
+            type: 'string',
+            description: 'Filter by workspace package root (e.g., "packages/billing") in monorepos',
+          },
         },
         required: ['query'],
       },
@@ -185,6 +462,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description: 'Maximum total tokens for the bundle (default: 8000)',
             default: 8000,
           },
+          package: {
+            type: 'string',
+            description: 'Only include files belonging to this workspace package root (e.g., "packages/billing")',
+          },
         },
         required: ['files'],
       },
@@ -286,10 +567,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
 
-  // Initialize crystallizer core if not already done
-  if (!crystallizerCore) {
-    crystallizerCore = new CrystallizerCore();
-  }
+  const { session } = (args || {}) as { session?: string };
+  const crystallizerCore = getCrystallizerCore(session);
 
   switch (name) {
     case 'get_crystallization_guidance': {
@@ -305,20 +584,47 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case 'init_crystallization': {
-      const { repoPath, exclude } = args as { repoPath: string; exclude?: string[] };
-      const result = await crystallizerCore.initializeCrystallization(repoPath, exclude);
+      const { repoPath, exclude, include } = args as { repoPath: string; exclude?: string[]; include?: string[] };
+      // Return once the first batch is queued (or the whole scan, for the survey pass and dependency order);
+      // the rest of the scan streams into the queue
+      const result = await crystallizerCore.initializeCrystallization(repoPath, exclude, { include, waitForScan: false });
+      const scopeSummary = result.includePatterns.length > 0 ? `\n🎯 Scope: ${result.includePatterns.join(', ')}` : '';
+      const packageSummary = result.workspacePackages.length > 0
+        ? `\n📦 Workspace packages: ${result.workspacePackages.map(pkg => `${pkg.relativePath} (${pkg.type})`).join(', ')}`
+        : '';
+      const ignoreEntries = Object.entries(result.ignoreStats);
+      const ignoreSummary = ignoreEntries.length > 0
+        ? `\n🚫 Excluded: ${ignoreEntries.map(([source, count]) => `${source} (${count})`).join(', ')}`
+        : '';
+      const generatedSummary = result.generatedFiles.files.length > 0
+        ? `\n🤖 Generated/vendored: ${result.generatedFiles.overview} summarized automatically, ${result.generatedFiles.excluded} excluded`
+        : '';
+      const undecodableSummary = result.undecodableFiles.length > 0
+        ? `\n⚠️  Could not decode: ${result.undecodableFiles.map(file => `${file.relativePath} (${file.reason})`).join(', ')}`
+        : '';
       return {
         content: [
           {
             type: 'text',
-            text: `✓ Queued ${result.filesQueued} relevant files for crystallization`,
+            text: `✓ Queued ${result.filesQueued} relevant files for crystallization${result.scanInProgress ? ' so far (repository scan continues in the background)' : ''}${scopeSummary}${packageSummary}${ignoreSummary}${generatedSummary}${undecodableSummary}`,
           },
         ],
       };
     }
 
     case 'get_next_file_to_crystallize': {
-      const nextFile = await crystallizerCore.getNextFileForCrystallization();
+      const { agentId } = (args || {}) as { agentId?: string };
+      const nextFile = await crystallizerCore.getNextFileForCrystallization(agentId);
+      if (!nextFile && crystallizerCore.isScanInProgress()) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No files are ready yet - the repository scan is still running. Try again shortly.',
+            },
+          ],
+        };
+      }
       if (!nextFile) {
         return {
           content: [
@@ -341,13 +647,173 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case 'store_crystallized_context': {
-      const { filePath, context, fileContent, fileMetadata } = args as any;
-      const result = await crystallizerCore.storeCrystallizedContext(filePath, context, fileContent, fileMetadata);
+      const { filePath, context, fileContent, fileMetadata, chunk, agentId } = args as any;
+      const result = await crystallizerCore.storeCrystallizedContext(filePath, context, fileContent, fileMetadata, chunk, agentId);
+      const chunkNote = chunk ? ` (chunk ${chunk.index}/${chunk.total})` : '';
+      const ownershipNote = result.ownershipWarning ? `\n⚠️  ${result.ownershipWarning}` : '';
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Crystallized context stored for ${result.filePath}${chunkNote}\n📊 Progress: ${result.totalContexts} crystallized contexts, ${result.totalTokens} total tokens${ownershipNote}`,
+          },
+        ],
+      };
+    }
+
+    case 'get_next_files_to_crystallize': {
+      const { agentId, maxFiles, maxTokens } = (args || {}) as { agentId?: string; maxFiles?: number; maxTokens?: number };
+      const batch = await crystallizerCore.getNextBatchForCrystallization(agentId, { maxFiles, maxTokens });
+      if (!batch) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: crystallizerCore.isScanInProgress()
+                ? 'No files are ready yet - the repository scan is still running. Try again shortly.'
+                : 'No more files to crystallize. Crystallization process complete!',
+            },
+          ],
+        };
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `✓ Crystallized context stored for ${result.filePath}\n📊 Progress: ${result.totalContexts} crystallized contexts, ${result.totalTokens} total tokens`,
+            text: JSON.stringify(batch),
+          },
+        ],
+      };
+    }
+
+    case 'store_crystallized_contexts': {
+      const { contexts, agentId } = args as { contexts: StoredContextEntry[]; agentId?: string };
+      const result = await crystallizerCore.storeCrystallizedContexts(contexts, agentId);
+      const failures = result.results
+        .filter(entry => !entry.stored)
+        .map(entry => `\n❌ ${entry.filePath}: ${entry.error}`)
+        .join('');
+      const warnings = result.results
+        .filter(entry => entry.ownershipWarning)
+        .map(entry => `\n⚠️  ${entry.ownershipWarning}`)
+        .join('');
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✓ Stored ${result.stored} of ${result.results.length} crystallized contexts\n📊 Progress: ${result.totalContexts} crystallized contexts, ${result.totalTokens} total tokens${failures}${warnings}`,
+          },
+        ],
+      };
+    }
+
+    case 'report_crystallization_outcome': {
+      const { filePath, outcome, reason, agentId, chunkIndex } = args as { filePath: string; outcome: WorkItemOutcome; reason: string; agentId?: string; chunkIndex?: number };
+      const result = await crystallizerCore.reportOutcome(filePath, outcome, reason, agentId, chunkIndex);
+      const labels: Record<WorkItemOutcome, string> = {
+        skip: `⏭️  Skipped ${result.filePath}; it will not be handed out again`,
+        defer: `⏸️  Deferred ${result.filePath}; it is back in the queue behind the files not deferred as often`,
+        fail: result.deadLettered
+          ? `☠️  ${result.filePath} failed ${result.attempts} times and was moved to the dead-letter list`
+          : `❌ Recorded failed attempt ${result.attempts} for ${result.filePath}; it will be retried`,
+      };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: labels[outcome],
+          },
+        ],
+      };
+    }
+
+    case 'extend_claim': {
+      const { agentId, filePath, chunkIndex, seconds } = (args || {}) as { agentId?: string; filePath?: string; chunkIndex?: number; seconds?: number };
+      const result = await crystallizerCore.extendClaim(agentId, filePath, { chunkIndex, seconds });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'release_claim': {
+      const { filePath, agentId, chunkIndex } = args as { filePath: string; agentId?: string; chunkIndex?: number };
+      const result = await crystallizerCore.releaseClaim(filePath, agentId, { chunkIndex });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `↩️  Released ${result.released}; it is back in the queue`,
+          },
+        ],
+      };
+    }
+
+    case 'get_crystallization_queue': {
+      const { limit } = (args || {}) as { limit?: number };
+      const queue = await crystallizerCore.getCrystallizationQueue(limit);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(queue, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'pin_queued_files': {
+      const { patterns, unpin } = args as { patterns: string[]; unpin?: boolean };
+      const result = await crystallizerCore.pinFiles(patterns, !unpin);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📌 ${result.pinned ? 'Pinned' : 'Unpinned'} ${result.files.length} files${formatFileList(result.files)}`,
+          },
+        ],
+      };
+    }
+
+    case 'adjust_queue_priority': {
+      const { patterns, delta } = args as { patterns: string[]; delta: number };
+      const result = await crystallizerCore.adjustQueuePriority(patterns, delta);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `↕️  Changed the priority of ${result.files.length} files by ${result.delta}${formatFileList(result.files)}`,
+          },
+        ],
+      };
+    }
+
+    case 'requeue_files': {
+      const { patterns } = args as { patterns: string[] };
+      const result = await crystallizerCore.requeueFiles(patterns);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔁 Requeued ${result.files.length} files for re-analysis${formatFileList(result.files)}`,
+          },
+        ],
+      };
+    }
+
+    case 'remove_queued_files': {
+      const { patterns } = args as { patterns: string[] };
+      const result = await crystallizerCore.removeQueuedFiles(patterns);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🗑️  Removed ${result.files.length} files from the session${formatFileList(result.files)}`,
           },
         ],
       };
@@ -366,8 +832,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case 'search_crystallized_contexts': {
-      const { query, maxTokens, category } = args as any;
-      const results = await crystallizerCore.searchCrystallizedContexts(query, maxTokens, category);
+      const { query, maxTokens, category, package: packagePath } = args as any;
+      const results = await crystallizerCore.searchCrystallizedContexts(query, maxTokens, category, packagePath);
       return {
         content: [
           {
@@ -379,8 +845,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     case 'get_crystallized_bundle': {
-      const { files, maxTokens } = args as any;
-      const bundle = await crystallizerCore.getCrystallizedBundle(files, maxTokens);
+      const { files, maxTokens, package: packagePath } = args as any;
+      const bundle = await crystallizerCore.getCrystallizedBundle(files, maxTokens, packagePath);
       return {
         content: [
           {
@@ -448,8 +914,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
-export async function startMcpServer() {
+export async function startMcpServer(options: { coordinator?: CoordinatorOptions } = {}) {
+  coordinator = options.coordinator;
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Context Crystallizer MCP server running... Ready to transform repositories into crystallized knowledge!');
+  if (coordinator) {
+    console.error(`Claims, stores and progress go through the coordinator at ${coordinator.url}`);
+  }
 }
\ No newline at end of file
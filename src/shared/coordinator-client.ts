@@ -0,0 +1,66 @@
+import http from 'http';
+import { URL } from 'url';
+
+// Claims, stores and heartbeats are single queue operations on the coordinator; anything slower is a dead connection
+const REQUEST_TIMEOUT_MS = 60000;
+
+// Talks to a coordinator started with "context-crystallizer coordinator" on another (or the same) machine
+export class CoordinatorClient {
+  private baseUrl: URL;
+  private token?: string;
+
+  constructor(url: string, token?: string) {
+    try {
+      this.baseUrl = new URL(url);
+    } catch (_error) {
+      throw new Error(`Invalid coordinator URL "${url}": expected e.g. http://build-01:4650`);
+    }
+    if (this.baseUrl.protocol !== 'http:') {
+      throw new Error(`Invalid coordinator URL "${url}": the coordinator speaks plain HTTP`);
+    }
+    this.token = token;
+  }
+
+  getUrl(): string {
+    return this.baseUrl.origin;
+  }
+
+  // Posts a JSON body and resolves with the JSON answer; coordinator errors are thrown with its message
+  async request(route: string, body: Record<string, unknown>): Promise<unknown> {
+    const payload = JSON.stringify(body);
+    const url = new URL(route, this.baseUrl);
+
+    return new Promise((resolve, reject) => {
+      const request = http.request(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload),
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          let answer: { error?: string } | undefined;
+          try {
+            answer = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+          } catch (_error) {
+            answer = undefined;
+          }
+          if (response.statusCode !== 200) {
+            reject(new Error(answer?.error ?? `Coordinator request ${route} failed with HTTP ${response.statusCode}`));
+          } else {
+            resolve(answer);
+          }
+        });
+      });
+
+      request.on('timeout', () => request.destroy(new Error(`no answer within ${REQUEST_TIMEOUT_MS / 1000}s`)));
+      request.on('error', _error => reject(new Error(`Cannot reach the coordinator at ${this.getUrl()}: ${_error.message}`)));
+      request.end(payload);
+    });
+  }
+}
\ No newline at end of file
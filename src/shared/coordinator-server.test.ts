@@ -0,0 +1,64 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CoordinatorServer } from './coordinator-server.js';
+import { CrystallizerCore, CrystallizerContext } from './crystallizer-core.js';
+
+const TOKEN = 'coordinator-test-token';
+const CONTEXT: CrystallizerContext = {
+  purpose: 'Test fixture',
+  keyTerms: ['fixture'],
+  dependencies: [],
+  patterns: [],
+  relatedContexts: [],
+};
+
+describe('CoordinatorServer', () => {
+  let repoPath: string;
+  let server: CoordinatorServer;
+  let url: string;
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'coordinator-server-test-'));
+    await fs.mkdir(path.join(repoPath, 'src'));
+    for (const name of ['a', 'b', 'c']) {
+      await fs.writeFile(path.join(repoPath, 'src', `${name}.ts`), `export const ${name} = 1;\n`);
+    }
+    await new CrystallizerCore().initializeCrystallization(repoPath);
+
+    server = new CoordinatorServer(repoPath, { token: TOKEN });
+    url = await server.start(0, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('serves claims, stores, heartbeats, releases and progress to client-mode cores', async () => {
+    const client = new CrystallizerCore(undefined, { url, token: TOKEN });
+
+    const stored = (await client.getNextFileForCrystallization('agent-a'))!;
+    await assert.rejects(client.storeCrystallizedContext(stored.relativePath, CONTEXT, undefined, undefined, undefined, 'agent-b'), /claimed by agent "agent-a"/);
+    const result = await client.storeCrystallizedContext(stored.relativePath, CONTEXT, undefined, undefined, undefined, 'agent-a');
+    assert.equal(result.ownershipWarning, undefined);
+
+    const released = (await client.getNextFileForCrystallization('agent-a'))!;
+    const heartbeat = await client.extendClaim('agent-a', released.relativePath);
+    assert.deepEqual(heartbeat.renewed, [released.relativePath]);
+    const release = await client.releaseClaim(released.relativePath, 'agent-a');
+    assert.equal(release.released, released.relativePath);
+
+    const progress = await client.getCrystallizationProgress();
+    assert.equal(progress.totalFiles, 3);
+    assert.equal(progress.processedFiles, 1);
+    assert.deepEqual(progress.agents.flatMap(agent => agent.inFlight), []);
+  });
+
+  it('rejects requests without the token', async () => {
+    const client = new CrystallizerCore(undefined, { url, token: 'wrong-token' });
+    await assert.rejects(client.getCrystallizationProgress(), /Missing or wrong coordinator token/);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import http from 'http';
+import path from 'path';
+import { URL } from 'url';
+import { CrystallizerCore, CrystallizerContext, FileMetadata, StoredContextEntry } from './crystallizer-core.js';
+import { QueueManager } from '../core/queue-manager.js';
+import { FileChunk, WorkItemOutcome } from '../types/index.js';
+
+export const DEFAULT_COORDINATOR_PORT = 4650;
+
+// Batch stores carry file contents; anything larger is not a store request
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+const OUTCOMES: WorkItemOutcome[] = ['skip', 'defer', 'fail'];
+const ROUTES = ['/guidance', '/claim', '/claim/batch', '/heartbeat', '/release', '/store', '/store/batch', '/outcome', '/progress'];
+
+// Serves guidance, claims, heartbeats, releases, stores, outcomes and progress of one repository checkout over plain HTTP, so agents
+// on other machines share its queue. Every request runs on the coordinator's own cores, one per named session,
+// which hold the queue and contexts in the repository as usual. File paths must stay inside the repository, and
+// only the agent holding a file's claim can store its context
+export class CoordinatorServer {
+  private repoPath: string;
+  private token?: string;
+  private cores = new Map<string, Promise<CrystallizerCore>>();
+  private server?: http.Server;
+
+  constructor(repoPath: string, options: { token?: string } = {}) {
+    this.repoPath = path.resolve(repoPath);
+    this.token = options.token;
+  }
+
+  // Opens the session up front so a missing crystallization fails at startup; returns the URL clients connect to.
+  // Beyond loopback anyone on the network could claim and store files, so a token is required there
+  async start(port: number = DEFAULT_COORDINATOR_PORT, host: string = '127.0.0.1', session?: string): Promise<string> {
+    if (!this.token && !isLoopbackHost(host)) {
+      throw new Error(`Listening on ${host} requires a token (--token or $CRYSTALLIZER_COORDINATOR_TOKEN); without one, listen on 127.0.0.1`);
+    }
+    await this.getCore(session);
+
+    const server = http.createServer((request, response) => { void this.handle(request, response); });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = server.address();
+    const boundPort = address && typeof address === 'object' ? address.port : port;
+    return `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  // Rejected requests (bad input, claims held by other agents, ...) answer 400 with { error }
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://coordinator');
+    if (this.token && !this.isAuthorized(request.headers.authorization)) {
+      this.respond(response, 401, { error: 'Missing or wrong coordinator token' });
+      return;
+    }
+    if (!ROUTES.includes(url.pathname)) {
+      this.respond(response, 404, { error: `Unknown coordinator route ${url.pathname} (expected ${ROUTES.join(', ')})` });
+      return;
+    }
+
+    try {
+      // Progress can also be read with a plain GET, e.g. from a browser or curl
+      const body = request.method === 'GET' && url.pathname === '/progress'
+        ? { session: url.searchParams.get('session') ?? undefined }
+        : await this.readBody(request);
+      this.respond(response, 200, await this.route(url.pathname, body));
+    } catch (_error) {
+      const message = _error instanceof Error ? _error.message : String(_error);
+      console.error(`⚠️  Coordinator ${request.method} ${url.pathname} rejected: ${message}`);
+      this.respond(response, 400, { error: message });
+    }
+  }
+
+  // Compared in constant time so response timing does not reveal how much of a guessed token matched
+  private isAuthorized(authorization: string | undefined): boolean {
+    const expected = Buffer.from(`Bearer ${this.token}`);
+    const received = Buffer.from(authorization ?? '');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  private respond(response: http.ServerResponse, statusCode: number, answer: unknown): void {
+    const payload = JSON.stringify(answer ?? null);
+    response.writeHead(statusCode, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) });
+    response.end(payload);
+  }
+
+  private async route(route: string, body: Record<string, unknown>): Promise<unknown> {
+    const core = await this.getCore(optionalString(body, 'session'));
+    const agentId = optionalString(body, 'agentId');
+
+    switch (route) {
+      case '/guidance':
+        return core.getCrystallizationGuidance(this.repoPath);
+      case '/claim':
+        return core.getNextFileForCrystallization(agentId);
+      case '/claim/batch':
+        return core.getNextBatchForCrystallization(agentId, {
+          maxFiles: optionalNumber(body, 'maxFiles'),
+          maxTokens: optionalNumber(body, 'maxTokens'),
+        });
+      case '/heartbeat': {
+        const filePath = optionalString(body, 'filePath');
+        return core.extendClaim(agentId, filePath && this.resolveRepositoryPath(filePath), {
+          chunkIndex: optionalNumber(body, 'chunkIndex'),
+          seconds: optionalNumber(body, 'seconds'),
+        });
+      }
+      // Agents release their own claims only; forced releases stay with the coordinator machine's CLI
+      case '/release':
+        return core.releaseClaim(this.resolveRepositoryPath(requireString(body, 'filePath')), agentId, {
+          chunkIndex: optionalNumber(body, 'chunkIndex'),
+        });
+      case '/store':
+        return core.storeCrystallizedContext(
+          this.resolveRepositoryPath(requireString(body, 'filePath')),
+          requireObject(body, 'context') as unknown as CrystallizerContext,
+          optionalString(body, 'fileContent'),
+          body.fileMetadata as Partial<FileMetadata> | undefined,
+          optionalChunk(body),
+          agentId
+        );
+      case '/store/batch': {
+        if (!Array.isArray(body.entries)) {
+          throw new Error('"entries" must be an array of { filePath, context, ... }');
+        }
+        // Every entry is checked before any is stored, so a rejected request stores nothing
+        const entries = body.entries.map((entry: unknown, i: number): StoredContextEntry => {
+          if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+            throw new Error(`"entries[${i}]" must be an object`);
+          }
+          const fields = entry as Record<string, unknown>;
+          return {
+            ...fields as unknown as StoredContextEntry,
+            filePath: this.resolveRepositoryPath(requireString(fields, 'filePath')),
+            chunk: optionalChunk(fields),
+          };
+        });
+        return core.storeCrystallizedContexts(entries, agentId);
+      }
+      case '/outcome': {
+        const outcome = requireString(body, 'outcome') as WorkItemOutcome;
+        if (!OUTCOMES.includes(outcome)) {
+          throw new Error(`"outcome" must be one of ${OUTCOMES.join(', ')}`);
+        }
+        return core.reportOutcome(this.resolveRepositoryPath(requireString(body, 'filePath')), outcome, requireString(body, 'reason'), agentId, optionalNumber(body, 'chunkIndex'));
+      }
+      case '/progress':
+        return core.getCrystallizationProgress();
+      default:
+        throw new Error(`Unknown coordinator route ${route}`);
+    }
+  }
+
+  // Agents name files as the coordinator handed them out (absolute) or relative to the repository; a path that
+  // resolves outside the repository is rejected before anything is read or written for it
+  private resolveRepositoryPath(filePath: string): string {
+    const resolved = path.resolve(this.repoPath, filePath);
+    const relative = path.relative(this.repoPath, resolved);
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`"${filePath}" is not a file in the repository ${this.repoPath}`);
+    }
+    return resolved;
+  }
+
+  // Concurrent first requests for a session share one core
+  private async getCore(session?: string): Promise<CrystallizerCore> {
+    const name = QueueManager.normalizeSessionName(session);
+    let core = this.cores.get(name);
+    if (!core) {
+      core = (async () => {
+        const created = new CrystallizerCore(name);
+        created.requireClaimsForStores();
+        await created.openRepository(this.repoPath);
+        return created;
+      })();
+      this.cores.set(name, core);
+      // A session that could not be opened is retried by the next request
+      core.catch(() => this.cores.delete(name));
+    }
+    return core;
+  }
+
+  private async readBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+    if (request.method !== 'POST') {
+      throw new Error('Coordinator routes expect POST with a JSON body');
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new Error(`Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024} MB`);
+      }
+      chunks.push(chunk);
+    }
+
+    let body: unknown;
+    try {
+      body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : {};
+    } catch (_error) {
+      throw new Error('Request body is not valid JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new Error('Request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+  }
+}
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireObject(body: Record<string, unknown>, key: string): Record<string, unknown> {
+  const value = body[key];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`"${key}" must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function optionalString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key];
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    throw new Error(`"${key}" must be a string`);
+  }
+  return value ?? undefined;
+}
+
+// Chunk indexes name the chunk's context file, so only the 1-based integers the chunker assigns are accepted
+function optionalChunk(body: Record<string, unknown>): FileChunk | undefined {
+  if (body.chunk === undefined || body.chunk === null) return undefined;
+  const chunk = requireObject(body, 'chunk');
+  if (typeof chunk.index !== 'number' || !Number.isInteger(chunk.index) || chunk.index < 1) {
+    throw new Error('"chunk.index" must be a positive integer');
+  }
+  return chunk as unknown as FileChunk;
+}
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function optionalNumber(body: Record<string, unknown>, key: string): number | undefined {
+  const value = body[key];
+  if (value !== undefined && value !== null && typeof value !== 'number') {
+    throw new Error(`"${key}" must be a number`);
+  }
+  return value ?? undefined;
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CrystallizerCore, CrystallizerContext } from './crystallizer-core.js';
+
+const CONTEXT: CrystallizerContext = {
+  purpose: 'Test fixture',
+  keyTerms: ['fixture'],
+  dependencies: [],
+  patterns: [],
+  relatedContexts: [],
+};
+
+describe('CrystallizerCore stores', () => {
+  let repoPath: string;
+  let core: CrystallizerCore;
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'crystallizer-core-test-'));
+    await fs.mkdir(path.join(repoPath, 'docs'));
+    await fs.writeFile(path.join(repoPath, 'docs', 'README.md'), '# Fixture\n');
+    await fs.writeFile(path.join(repoPath, 'index.ts'), 'export const value = 1;\n');
+    core = new CrystallizerCore();
+    await core.initializeCrystallization(repoPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('matches a store by relative path to the claim on the same file', async () => {
+    const { totalFiles } = await core.getCrystallizationProgress();
+    const file = (await core.getNextFileForCrystallization('agent-a'))!;
+
+    await assert.rejects(core.storeCrystallizedContext(file.relativePath, CONTEXT, undefined, undefined, undefined, 'agent-b'), /claimed by agent "agent-a"/);
+    const result = await core.storeCrystallizedContext(file.relativePath, CONTEXT, undefined, undefined, undefined, 'agent-a');
+
+    const progress = await core.getCrystallizationProgress();
+    assert.equal(result.ownershipWarning, undefined);
+    assert.equal(progress.totalFiles, totalFiles);
+    assert.equal(progress.processedFiles, 1);
+    assert.deepEqual(progress.agents.flatMap(agent => agent.inFlight), []);
+  });
+
+  it('keeps the template the caller passed for items outside the survey pass', async () => {
+    const file = (await core.getNextFileForCrystallization('agent-a'))!;
+    await core.storeCrystallizedContext(file.relativePath, { ...CONTEXT, template: 'detailed' } as CrystallizerContext, undefined, undefined, undefined, 'agent-a');
+
+    const metadataPath = path.join(repoPath, '.context-crystallizer', 'ai-metadata', `${file.relativePath.replace(/\//g, '_')}.json`);
+    const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+    assert.equal(metadata.template, 'detailed');
+  });
+});
\ No newline at end of file
@@ -1,10 +1,19 @@
 import { FileScanner } from '../core/file-scanner.js';
 import { ContextStorage } from '../core/context-storage.js';
-import { QueueManager } from '../core/queue-manager.js';
+import { QueueManager, DEFAULT_LEASE_SECONDS, DEFAULT_SESSION_NAME, RescanDelta } from '../core/queue-manager.js';
 import { ContextSearch } from '../core/context-search.js';
 import { ContextValidator } from '../core/context-validator.js';
 import { ChangeDetector } from '../core/change-detector.js';
 import { ContextUpdater } from '../core/context-updater.js';
+import { CentralityConfig, DependencyOrderConfig, DEFAULT_PROJECT_CONFIG, GeneratedFileHandling, ProjectConfigLoader, SurveyConfig } from '../core/project-config.js';
+import { FileChunker } from '../core/file-chunker.js';
+import { ImportGraph } from '../core/import-graph.js';
+import { IncludeScope } from '../core/include-scope.js';
+import { EventJournal, JournalFilter } from '../core/event-journal.js';
+import { SurveyReason, SurveySampler } from '../core/survey-sampler.js';
+import { CoordinatorClient } from './coordinator-client.js';
+import { TokenCounter } from '../utils/token-counter.js';
+import { FileChunk, FileQueueItem, GeneratedFileInfo, GitChurn, ScanProgress, UndecodableFile, WorkItemOutcome, WorkspacePackage } from '../types/index.js';
 import path from 'path';
 import { promises as fs } from 'fs';
 import { fileURLToPath } from 'url';
@@ -23,13 +32,84 @@ export interface CrystallizerContext {
   integrationPoints?: string[];
 }
 
+export interface GeneratedFilesSummary {
+  overview: number; // Summarized automatically
+  excluded: number;
+  files: Array<{ relativePath: string; action: 'overview' | 'excluded' } & GeneratedFileInfo>;
+}
+
+export interface CentralitySummary {
+  algorithm: CentralityConfig['algorithm'];
+  files: number; // Nodes in the import graph
+  imports: number; // Resolved import edges
+  reprioritized: number; // Queued work items whose priority changed
+  top: Array<{ relativePath: string; score: number; importedBy: number }>;
+}
+
+export interface DependencyOrderSummary {
+  files: number; // Nodes in the import graph
+  imports: number; // Resolved import edges
+  levels: number; // Distinct topological levels, leaves being level 0
+  cycles: string[][]; // Files importing each other, served together at one level
+  reordered: number; // Queued work items that received a level
+}
+
+// Changes the rescan of a recovered session found since it was saved
+export interface RescanSummary {
+  added: number;
+  modified: number; // Processed files changed after their context was written
+  deleted: number; // Deleted or newly excluded files
+  files: RescanDelta; // The first few of each
+}
+
+const RESCAN_LISTED_FILES = 20;
+
+// Sample the survey pass crystallizes first with the overview template
+export interface SurveySummary {
+  selected: number;
+  byReason: Partial<Record<SurveyReason, number>>;
+  directories: { covered: number; total: number }; // Directories with queued work
+  categories: { covered: string[]; total: string[] };
+}
+
+// Stored context of a direct import, handed out with the importing file in dependency order mode
+export interface DependencyContext {
+  relativePath: string;
+  purpose: string;
+  keyTerms: string[];
+  integrationPoints?: string[];
+  patterns?: string[];
+}
+
+export interface StoredContextEntry {
+  filePath: string;
+  context: CrystallizerContext;
+  fileContent?: string;
+  fileMetadata?: Partial<FileMetadata>;
+  chunk?: FileChunk;
+}
+
 export interface FileMetadata {
   complexity: 'low' | 'medium' | 'high';
   category: 'config' | 'source' | 'test' | 'docs' | 'other';
   estimatedTokens: number;
+  language?: string;
+  encoding?: string;
+  churn?: GitChurn;
 }
 
+// Client mode: claims, heartbeats, releases, stores, outcomes and progress go to a coordinator server instead of local files
+export interface CoordinatorOptions {
+  url: string;
+  token?: string;
+}
+
+const DEFAULT_BATCH_FILES = 10;
+const MAX_BATCH_FILES = 50;
+
 export class CrystallizerCore {
+  private sessionName: string;
+  private coordinator?: CoordinatorClient;
   private fileScanner?: FileScanner;
   private contextStorage?: ContextStorage;
   private queueManager?: QueueManager;
@@ -37,8 +117,66 @@ export class CrystallizerCore {
   private contextValidator?: ContextValidator;
   private changeDetector?: ChangeDetector;
   private contextUpdater?: ContextUpdater;
+  private scanProgress?: ScanProgress;
+  private onScanProgress?: (progress: ScanProgress) => void;
+  private generatedFiles: GeneratedFilesSummary['files'] = [];
+  private centralitySummary?: CentralitySummary;
+  private dependencyOrderSummary?: DependencyOrderSummary;
+  private rescanSummary?: RescanSummary;
+  private surveySummary?: SurveySummary;
+  private dependencyOrderSettings: DependencyOrderConfig = DEFAULT_PROJECT_CONFIG.dependencyOrder;
+  private importGraph?: ImportGraph; // Kept in dependency order mode to look up each work item's imports
+  private scannedFiles: FileQueueItem[] = []; // Work items of the last complete scan, for requeueing
+  private claimsRequired = false;
+  // Set while a scan is still discovering files: stores made meanwhile, repeated once every file is known
+  private storedDuringScan?: Array<() => Promise<string[]>>;
+
+  // Each core works on one named session (its own queue, scope and claims); the contexts are shared
+  constructor(sessionName?: string, coordinator?: CoordinatorOptions) {
+    this.sessionName = QueueManager.normalizeSessionName(sessionName);
+    if (coordinator) {
+      this.coordinator = new CoordinatorClient(coordinator.url, coordinator.token);
+    }
+  }
+
+  getSessionName(): string {
+    return this.sessionName;
+  }
+
+  getCoordinatorUrl(): string | undefined {
+    return this.coordinator?.getUrl();
+  }
 
-  async initializeCrystallization(repoPath: string, exclude: string[] = ['node_modules', '.git', 'dist', 'build']) {
+  // The coordinator serves the repository the session was initialized in
+  async openRepository(repoPath: string): Promise<void> {
+    await this.ensureInitialized(path.resolve(repoPath));
+  }
+
+  // The coordinator runs the call on its own core and answers with what that returns (dates as ISO strings);
+  // typed never so each method keeps the return type of its local implementation
+  private forward(route: string, body: Record<string, unknown>): Promise<never> {
+    return this.coordinator!.request(route, { session: this.sessionName, ...body }) as Promise<never>;
+  }
+
+  // Coordinator mode: stores come from remote agents, so one without an active claim of the storing agent is
+  // rejected instead of stored with an ownership warning
+  requireClaimsForStores(): void {
+    this.claimsRequired = true;
+  }
+
+  private requireLocalRepository(): void {
+    if (this.coordinator) {
+      throw new Error(`Only guidance, claims, heartbeats, releases, stores, outcomes and progress go through the coordinator at ${this.coordinator.getUrl()}; run this on the coordinator machine`);
+    }
+  }
+
+  // include restricts the session to matching paths; re-initializing with another scope extends the session
+  async initializeCrystallization(repoPath: string, exclude: string[] = ['node_modules', '.git', 'dist', 'build'], options: { include?: string[]; waitForScan?: boolean; onScanProgress?: (progress: ScanProgress) => void } = {}) {
+    this.requireLocalRepository();
+    const waitForScan = options.waitForScan ?? true;
+    const include = options.include ?? [];
+    this.onScanProgress = options.onScanProgress;
+    
     // Check if crystallization already exists
     const alreadyInitialized = await this.isAlreadyInitialized(repoPath);
     
@@ -49,17 +187,22 @@ export class CrystallizerCore {
       await this.ensureInfrastructure(repoPath);
       
       // Initialize components to work with existing data
-      await this.initializeComponents(repoPath, exclude);
+      await this.initializeComponents(repoPath, exclude, waitForScan, include);
       
       // Get current queue status
       const queueStatus = this.queueManager?.getProgress();
       const filesQueued = queueStatus?.totalFiles || 0;
       
+      const workspacePackages = this.fileScanner!.getWorkspacePackages();
+      const ignoreStats = this.fileScanner!.getIgnoreStats();
+      const scanInProgress = this.queueManager!.isScanInProgress();
+      
       console.error(`✓ Reinitialized with ${filesQueued} files (${queueStatus?.processedFiles || 0} already processed)`);
-      return { filesQueued, reinitialized: true };
+      const undecodableFiles = this.fileScanner!.getUndecodableFiles();
+      return { filesQueued, reinitialized: true, workspacePackages, ignoreStats, scanInProgress, generatedFiles: this.getGeneratedFilesSummary(), undecodableFiles, centrality: this.centralitySummary, dependencyOrder: this.dependencyOrderSummary, rescan: this.rescanSummary, survey: this.surveySummary, includePatterns: this.queueManager!.getIncludePatterns(), session: this.sessionName };
     } else {
       console.error('🆕 Fresh crystallization initialization');
-      return await this.performFreshInitialization(repoPath, exclude);
+      return await this.performFreshInitialization(repoPath, exclude, waitForScan, include);
     }
   }
 
@@ -84,6 +227,8 @@ export class CrystallizerCore {
   }
 
   private async ensureInitialized(repoPath?: string): Promise<void> {
+    this.requireLocalRepository();
+    
     // If already initialized, nothing to do
     if (this.contextSearch && this.contextStorage && this.queueManager) {
       return;
@@ -98,10 +243,15 @@ export class CrystallizerCore {
     if (!hasExistingCrystallization) {
       throw new Error(`No crystallization found in ${targetPath}. Please run init_crystallization first to set up the repository.`);
     }
+    
+    // Named sessions are only created by init, never implicitly with the whole repository as scope
+    if (this.sessionName !== DEFAULT_SESSION_NAME && !(await QueueManager.sessionExists(targetPath, this.sessionName))) {
+      throw new Error(`No crystallization session "${this.sessionName}" found in ${targetPath}. Run init_crystallization with this session first.`);
+    }
 
-    // Auto-initialize components for existing crystallization
+    // Auto-initialize components for existing crystallization, keeping the exclude patterns of the session
     console.error(`🔄 Auto-initializing components for existing crystallization in ${targetPath}`);
-    await this.initializeComponents(targetPath, ['node_modules', '.git', 'dist', 'build']);
+    await this.initializeComponents(targetPath, undefined);
   }
 
   private async ensureInfrastructure(repoPath: string): Promise<void> {
@@ -116,39 +266,282 @@ export class CrystallizerCore {
     
     // Create timeout configuration (already protected against overwrite)
     await this.createTimeoutConfigFile(repoPath);
+    
+    // Create project configuration and its JSON schema (config already protected against overwrite)
+    await new ProjectConfigLoader(repoPath).scaffold();
   }
 
-  private async initializeComponents(repoPath: string, exclude: string[]): Promise<void> {
-    this.fileScanner = new FileScanner(repoPath, exclude);
+  // exclude and include undefined keep the exclude patterns and scope of a recovered session
+  private async initializeComponents(repoPath: string, exclude: string[] | undefined, waitForScan = true, include?: string[]): Promise<void> {
+    // Load team-defined scanner rules (throws with validation errors if config.json is invalid)
+    const projectConfig = await new ProjectConfigLoader(repoPath).load();
+    
+    // Initialize queue with session recovery (preserves existing state); a new queue is filled by the scan,
+    // a recovered one is reconciled with it
+    this.queueManager = new QueueManager(this.sessionName);
+    const recovered = await this.queueManager.initializeQueue([], repoPath, exclude, include);
+    
+    this.fileScanner = new FileScanner(repoPath, this.queueManager.getExcludePatterns(), projectConfig);
     this.contextStorage = new ContextStorage(repoPath);
-    this.queueManager = new QueueManager();
     this.contextSearch = new ContextSearch(repoPath);
     this.contextValidator = new ContextValidator(repoPath);
     this.changeDetector = new ChangeDetector(repoPath);
     this.contextUpdater = new ContextUpdater(repoPath, this.fileScanner, this.contextStorage, this.changeDetector, this.queueManager);
+    await this.contextStorage.initialize([]);
+    
+    // The whole repository is scanned so cross-references resolve everywhere; only in-scope files are queued
+    const scope = new IncludeScope(this.queueManager.getIncludePatterns());
+    const enqueueScanResults = !recovered || this.queueManager.isScopeExtended();
+    
+    this.generatedFiles = [];
+    this.centralitySummary = undefined;
+    this.dependencyOrderSummary = undefined;
+    this.rescanSummary = undefined;
+    this.surveySummary = undefined;
+    this.dependencyOrderSettings = projectConfig.dependencyOrder;
+    this.importGraph = undefined;
+    this.scannedFiles = [];
+    await this.queueManager.setScanInProgress(true);
+    this.storedDuringScan = [];
+    
+    // The survey pass and centrality ranking only apply to a new session; a recovered one keeps its survey state
+    // and persisted priorities, including manual priority edits and defer/fail penalties
+    const survey = projectConfig.survey.enabled && !recovered;
+    const centrality = projectConfig.centrality.enabled && !recovered;
+    
+    let markFirstBatchReady = () => {};
+    const firstBatchReady = new Promise<void>(resolve => { markFirstBatchReady = resolve; });
+    
+    const scan = this.fileScanner.scanRepository({
+      onBatch: async items => {
+        this.contextStorage!.addRepositoryFiles(items.map(item => item.path), this.fileScanner!.getWorkspacePackages());
+        const inScope = items.filter(item => scope.includes(item.relativePath));
+        // Generated/vendored files never reach agents
+        await this.handleGeneratedFiles(inScope.filter(item => item.generated), projectConfig.generatedFiles);
+        if (enqueueScanResults) {
+          await this.queueManager!.enqueueFiles(inScope.filter(item => !item.generated));
+        }
+        markFirstBatchReady();
+      },
+      onProgress: progress => {
+        this.scanProgress = progress;
+        this.onScanProgress?.(progress);
+      },
+    }).then(async files => {
+      this.scannedFiles = files.filter(file => !file.generated && scope.includes(file.relativePath));
+      
+      // Files added, changed or deleted while the session was saved; before the import graph so new files are ordered too
+      if (recovered) {
+        const delta = await this.queueManager!.reconcileWithScan(this.scannedFiles);
+        if (delta.added.length + delta.modified.length + delta.deleted.length > 0) {
+          this.rescanSummary = this.summarizeRescan(delta);
+        }
+      }
+      
+      // Cross-reference analysis needs every file path (chunked files appear once per chunk)
+      const allFilePaths = Array.from(new Set(files.map(f => f.path)));
+      this.contextStorage!.updateRepositoryFiles(allFilePaths, this.fileScanner!.getWorkspacePackages());
+      await this.refreshContextsStoredDuringScan();
+      
+      // The import graph needs the complete file list, so the queue is reordered once the scan has finished
+      let graph: ImportGraph | undefined;
+      if (centrality || projectConfig.dependencyOrder.enabled || survey) {
+        const graphFiles = files.filter(file => !file.generated);
+        graph = await this.buildImportGraph(graphFiles);
+        if (graph && centrality) {
+          await this.prioritizeByCentrality(repoPath, graph, graphFiles, projectConfig.centrality);
+        }
+        if (graph && projectConfig.dependencyOrder.enabled) {
+          await this.orderByDependencies(repoPath, graph);
+        }
+      }
+      if (survey) {
+        await this.selectSurvey(graph, projectConfig.survey);
+      }
+    }).finally(() => {
+      this.storedDuringScan = undefined;
+      return this.queueManager!.setScanInProgress(false);
+    });
+    
+    // The survey pass and dependency order decide what is served first, so claims wait for the whole scan
+    if (waitForScan || survey || projectConfig.dependencyOrder.enabled) {
+      await scan;
+      return;
+    }
+    
+    // Let agents start as soon as the first batch is queued; the rest of the scan continues in the background.
+    // A scan that fails before its first batch fails the initialization; later failures are only logged
+    scan.catch(_error => console.error('❌ Background repository scan failed:', _error));
+    await Promise.race([firstBatchReady, scan]);
+  }
 
-    // Initialize queue with session recovery (preserves existing state)
-    const files = await this.fileScanner.scanRepository();
-    await this.queueManager.initializeQueue(files, repoPath, exclude);
+  // Stores made before the scan had discovered every file missed references to files found later;
+  // storing them again against the complete file list fills those in without another agent pass
+  private async refreshContextsStoredDuringScan(): Promise<void> {
+    const stores = this.storedDuringScan ?? [];
+    this.storedDuringScan = undefined;
+    if (stores.length === 0) return;
+    
+    try {
+      await this.contextStorage!.withDeferredIndex(async () => {
+        for (const store of stores) {
+          await store();
+        }
+      });
+      console.error(`🔗 Refreshed cross-references of ${stores.length} contexts stored during the scan`);
+    } catch (_error) {
+      console.error('⚠️  Refreshing cross-references of contexts stored during the scan failed:', _error);
+    }
+  }
+
+  private async handleGeneratedFiles(files: FileQueueItem[], handling: GeneratedFileHandling): Promise<void> {
+    if (files.length === 0) return;
+    
+    for (const file of files) {
+      this.generatedFiles.push({
+        relativePath: file.relativePath,
+        ...file.generated!,
+        action: handling === 'overview' ? 'overview' : 'excluded',
+      });
+    }
     
-    // Initialize context storage with all file paths (safe for existing data)
-    const allFilePaths = files.map(f => f.path);
-    await this.contextStorage.initialize(allFilePaths);
+    if (handling === 'overview') {
+      await this.contextStorage!.storeGeneratedContexts(files);
+    }
+  }
+
+  private async buildImportGraph(files: FileQueueItem[]): Promise<ImportGraph | undefined> {
+    try {
+      return await ImportGraph.build(files, filePath => this.fileScanner!.readFile(filePath));
+    } catch (_error) {
+      // Static priorities still apply
+      console.error('⚠️  Import graph construction failed:', _error);
+      return undefined;
+    }
+  }
+
+  private async prioritizeByCentrality(repoPath: string, graph: ImportGraph, files: FileQueueItem[], settings: CentralityConfig): Promise<void> {
+    try {
+      if (graph.getEdgeCount() === 0) {
+        // No resolvable imports means no ranking signal; keep the static order
+        console.error('🕸️  No imports resolved between repository files - keeping static priorities');
+        return;
+      }
+      
+      const centrality = settings.algorithm === 'in-degree' ? graph.getInDegrees() : graph.computePageRank();
+      const scores = ImportGraph.toPercentileScores(centrality);
+      
+      // Weighted blend with the static priority; files outside the graph (docs, config, ...) keep theirs
+      const priorities = new Map<string, number>();
+      for (const file of files) {
+        const score = scores.get(file.path);
+        if (score !== undefined) {
+          const blended = (1 - settings.weight) * file.priority + settings.weight * score;
+          priorities.set(QueueManager.getWorkItemKey(file.path, file.chunk?.index), Math.round(blended));
+        }
+      }
+      const reprioritized = await this.queueManager!.reprioritize(priorities);
+      
+      const inDegrees = graph.getInDegrees();
+      const top = Array.from(centrality.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 10)
+        .map(([filePath]) => ({
+          relativePath: path.relative(path.resolve(repoPath), filePath),
+          score: scores.get(filePath)!,
+          importedBy: inDegrees.get(filePath) || 0,
+        }));
+      
+      this.centralitySummary = { algorithm: settings.algorithm, files: graph.getNodeCount(), imports: graph.getEdgeCount(), reprioritized, top };
+      console.error(`🕸️  Reprioritized ${reprioritized} work items by import centrality (${graph.getNodeCount()} files, ${graph.getEdgeCount()} imports)`);
+    } catch (_error) {
+      // Static priorities still apply
+      console.error('⚠️  Import centrality prioritization failed:', _error);
+    }
+  }
+
+  // Leaves first: every file is served after the files it imports, so their contexts can travel with it
+  private async orderByDependencies(repoPath: string, graph: ImportGraph): Promise<void> {
+    try {
+      this.importGraph = graph;
+      const { levels, cycles } = graph.computeDependencyLevels();
+      const reordered = await this.queueManager!.applyDependencyLevels(levels);
+      
+      const toRelative = (filePath: string) => path.relative(path.resolve(repoPath), filePath);
+      this.dependencyOrderSummary = {
+        files: graph.getNodeCount(),
+        imports: graph.getEdgeCount(),
+        // Reduced rather than spread: Math.max(...values) overflows the call stack on large repositories
+        levels: levels.size > 0 ? Array.from(levels.values()).reduce((max, level) => Math.max(max, level), 0) + 1 : 0,
+        cycles: cycles.map(members => members.map(toRelative).sort()),
+        reordered,
+      };
+      console.error(`🧱 Ordered ${reordered} work items by dependencies (${this.dependencyOrderSummary.levels} levels, ${cycles.length} import cycles)`);
+    } catch (_error) {
+      // Priority order still applies
+      console.error('⚠️  Dependency ordering failed:', _error);
+    }
+  }
+
+  // Marks a representative sample of the queue to be crystallized first with the overview template
+  private async selectSurvey(graph: ImportGraph | undefined, settings: SurveyConfig): Promise<void> {
+    try {
+      const centralFiles = graph && graph.getEdgeCount() > 0 && settings.centralFiles > 0
+        ? Array.from(graph.computePageRank().entries()).sort(([, a], [, b]) => b - a).slice(0, settings.centralFiles).map(([filePath]) => filePath)
+        : [];
+      const { queued } = await this.queueManager!.getQueueSnapshot();
+      const sample = SurveySampler.select(queued, { maxFiles: settings.maxFiles, centralFiles });
+      const selected = await this.queueManager!.applySurvey(sample.files.map(({ file }) => QueueManager.getWorkItemKey(file.path)));
+      
+      const byReason: SurveySummary['byReason'] = {};
+      sample.files.forEach(({ reason }) => { byReason[reason] = (byReason[reason] || 0) + 1; });
+      this.surveySummary = { selected, byReason, directories: sample.directories, categories: sample.categories };
+      console.error(`🔭 Survey pass: ${selected} files first with the overview template (${sample.directories.covered}/${sample.directories.total} directories, ${sample.categories.covered.length}/${sample.categories.total.length} categories)`);
+    } catch (_error) {
+      // The regular queue order still applies
+      console.error('⚠️  Survey selection failed:', _error);
+    }
+  }
+
+  private summarizeRescan(delta: RescanDelta): RescanSummary {
+    return {
+      added: delta.added.length,
+      modified: delta.modified.length,
+      deleted: delta.deleted.length,
+      files: {
+        added: delta.added.slice(0, RESCAN_LISTED_FILES),
+        modified: delta.modified.slice(0, RESCAN_LISTED_FILES),
+        deleted: delta.deleted.slice(0, RESCAN_LISTED_FILES),
+      },
+    };
+  }
+
+  private getGeneratedFilesSummary(): GeneratedFilesSummary {
+    return {
+      overview: this.generatedFiles.filter(file => file.action === 'overview').length,
+      excluded: this.generatedFiles.filter(file => file.action === 'excluded').length,
+      files: this.generatedFiles,
+    };
   }
 
-  private async performFreshInitialization(repoPath: string, exclude: string[]): Promise<{ filesQueued: number; reinitialized?: boolean }> {
+  private async performFreshInitialization(repoPath: string, exclude: string[], waitForScan: boolean, include: string[]): Promise<{ filesQueued: number; reinitialized?: boolean; workspacePackages: WorkspacePackage[]; ignoreStats: Record<string, number>; scanInProgress: boolean; generatedFiles: GeneratedFilesSummary; undecodableFiles: UndecodableFile[]; centrality?: CentralitySummary; dependencyOrder?: DependencyOrderSummary; rescan?: RescanSummary; survey?: SurveySummary; includePatterns: string[]; session: string }> {
     // Ensure infrastructure files exist for fresh setup
     await this.ensureInfrastructure(repoPath);
     
     // Initialize components for fresh setup
-    await this.initializeComponents(repoPath, exclude);
+    await this.initializeComponents(repoPath, exclude, waitForScan, include);
 
     // Get queue status after fresh initialization
     const queueStatus = this.queueManager?.getProgress();
     const filesQueued = queueStatus?.totalFiles || 0;
     
-    console.error(`✓ Fresh initialization complete with ${filesQueued} files to process`);
-    return { filesQueued };
+    const workspacePackages = this.fileScanner!.getWorkspacePackages();
+    const ignoreStats = this.fileScanner!.getIgnoreStats();
+    const scanInProgress = this.queueManager!.isScanInProgress();
+    
+    console.error(`✓ Fresh initialization complete with ${filesQueued} files to process${scanInProgress ? ' (scan still running)' : ''}`);
+    const undecodableFiles = this.fileScanner!.getUndecodableFiles();
+    return { filesQueued, workspacePackages, ignoreStats, scanInProgress, generatedFiles: this.getGeneratedFilesSummary(), undecodableFiles, centrality: this.centralitySummary, dependencyOrder: this.dependencyOrderSummary, rescan: this.rescanSummary, survey: this.surveySummary, includePatterns: this.queueManager!.getIncludePatterns(), session: this.sessionName };
   }
 
   private async createTemplateFiles(repoPath: string): Promise<void> {
@@ -214,24 +607,87 @@ export class CrystallizerCore {
       await fs.access(timeoutConfigPath);
       // File exists, skip
     } catch {
-      // File doesn't exist, create it with default 15 minutes (900 seconds)
-      await fs.writeFile(timeoutConfigPath, '900');
+      // File doesn't exist, create it with the default claim lease (renewed by heartbeats)
+      await fs.writeFile(timeoutConfigPath, String(DEFAULT_LEASE_SECONDS));
     }
   }
 
-  async getNextFileForCrystallization() {
+  async getNextFileForCrystallization(agentId?: string) {
+    if (this.coordinator) return this.forward('/claim', { agentId });
     await this.ensureInitialized();
+    const owner = QueueManager.normalizeAgentId(agentId);
 
-    const nextFile = await this.queueManager!.getNextFile();
-    if (!nextFile) {
-      return null; // No more files to crystallize
+    for (let nextFile = await this.queueManager!.getNextFile(owner); nextFile; nextFile = await this.queueManager!.getNextFile(owner)) {
+      const workItem = await this.prepareWorkItem(nextFile, owner);
+      if (workItem) {
+        return workItem;
+      }
     }
 
-    const content = await this.fileScanner!.readFile(nextFile.path);
+    return null; // No more files to crystallize
+  }
+
+  // Claims several files in one call: up to maxFiles, and within maxTokens of estimated content when given
+  async getNextBatchForCrystallization(agentId?: string, limits: { maxFiles?: number; maxTokens?: number } = {}) {
+    if (this.coordinator) return this.forward('/claim/batch', { agentId, ...limits });
+    await this.ensureInitialized();
+    const owner = QueueManager.normalizeAgentId(agentId);
+    const maxFiles = Math.min(Math.max(1, limits.maxFiles ?? DEFAULT_BATCH_FILES), MAX_BATCH_FILES);
+    const claimBatch = () => this.queueManager!.getNextBatch(owner, { maxFiles, maxTokens: limits.maxTokens });
+
+    // Undecodable files drop out of a batch; claim again if none of a batch was usable
+    for (let batch = await claimBatch(); batch.length > 0; batch = await claimBatch()) {
+      const files = [];
+      for (const item of batch) {
+        const workItem = await this.prepareWorkItem(item, owner);
+        if (workItem) {
+          files.push(workItem);
+        }
+      }
+
+      if (files.length > 0) {
+        return {
+          agentId: owner,
+          files,
+          totalEstimatedTokens: files.reduce((sum, file) => sum + file.metadata.estimatedTokens, 0),
+          leaseSeconds: this.queueManager!.getLeaseSeconds(),
+        };
+      }
+    }
+
+    return null; // No more files to crystallize
+  }
+
+  // Reads a claimed work item for the agent; null when it cannot be decoded (it is then reported and skipped)
+  private async prepareWorkItem(nextFile: FileQueueItem, owner: string) {
+    let decoded;
+    try {
+      decoded = await this.fileScanner!.readDecodedFile(nextFile.path);
+    } catch (_error) {
+      // The scan only checks each file's head; report files that turn out undecodable and move on
+      const reason = _error instanceof Error ? _error.message : String(_error);
+      console.error(`⚠️  Skipping ${nextFile.relativePath}: cannot decode (${reason})`);
+      this.fileScanner!.recordUndecodableFile(nextFile.relativePath, reason);
+      await this.queueManager!.recordOutcome(QueueManager.getWorkItemKey(nextFile.path, nextFile.chunk?.index), 'skip', `cannot decode (${reason})`, owner, true);
+      return null;
+    }
+    
+    // Chunked work items only hand out their slice of the file
+    const content = nextFile.chunk ? FileChunker.extractChunkContent(decoded.content, nextFile.chunk) : decoded.content;
+    const claim = await this.queueManager!.getClaim(QueueManager.getWorkItemKey(nextFile.path, nextFile.chunk?.index));
+    const dependencyContexts = await this.getDependencyContexts(nextFile.path);
+    // Survey items get a short overview now and their full context when the regular queue reaches them again
+    const survey = nextFile.survey ? { survey: true, template: 'overview' as const } : {};
     return {
       path: nextFile.path,
       relativePath: nextFile.relativePath,
       content,
+      chunk: nextFile.chunk,
+      agentId: owner,
+      claim: {
+        leaseSeconds: this.queueManager!.getLeaseSeconds(),
+        expiresAt: claim ? new Date(claim.expiresAt).toISOString() : undefined,
+      },
       metadata: {
         size: nextFile.size,
         priority: nextFile.priority,
@@ -239,35 +695,317 @@ export class CrystallizerCore {
         estimatedTokens: nextFile.estimatedTokens,
         category: nextFile.category,
         lastModified: nextFile.lastModified,
+        package: nextFile.package,
+        language: nextFile.language,
+        encoding: decoded.encoding,
+        churn: nextFile.churn,
       },
+      dependencyContexts,
+      ...survey,
+    };
+  }
+
+  // Stored contexts of the file's direct imports within the token budget; imports not crystallized yet
+  // (e.g. in the same import cycle) are left out
+  private async getDependencyContexts(filePath: string): Promise<DependencyContext[] | undefined> {
+    const settings = this.dependencyOrderSettings;
+    if (!this.importGraph || !settings.enabled || !settings.includeDependencyContexts) {
+      return undefined;
+    }
+    
+    const contexts: DependencyContext[] = [];
+    let tokens = 0;
+    for (const dependency of this.importGraph.getImports(filePath).sort()) {
+      const stored = await this.contextStorage!.getContext(this.toDisplayKey(dependency));
+      if (!stored) continue;
+      
+      const context: DependencyContext = {
+        relativePath: stored.relativePath,
+        purpose: stored.purpose,
+        keyTerms: stored.keyTerms,
+        integrationPoints: stored.integrationPoints,
+        patterns: stored.patterns,
+      };
+      const contextTokens = TokenCounter.countTokens(JSON.stringify(context));
+      if (tokens + contextTokens > settings.maxDependencyContextTokens) continue;
+      contexts.push(context);
+      tokens += contextTokens;
+    }
+    return contexts;
+  }
+
+  isScanInProgress(): boolean {
+    return this.queueManager?.isScanInProgress() ?? false;
+  }
+
+  async storeCrystallizedContext(filePath: string, context: CrystallizerContext, fileContent?: string, fileMetadata?: Partial<FileMetadata>, chunk?: FileChunk, agentId?: string) {
+    if (this.coordinator) return this.forward('/store', { filePath, context, fileContent, fileMetadata, chunk, agentId });
+    await this.ensureInitialized();
+
+    const ownershipWarning = await this.storeWorkItem({ filePath, context, fileContent, fileMetadata, chunk }, agentId);
+
+    const stats = await this.contextStorage!.getContextStatistics();
+    return {
+      filePath,
+      totalContexts: stats.totalContexts,
+      totalTokens: stats.totalTokens,
+      ownershipWarning,
     };
   }
 
-  async storeCrystallizedContext(filePath: string, context: CrystallizerContext, fileContent?: string, fileMetadata?: Partial<FileMetadata>) {
+  // Stores several contexts in one call and rebuilds the index once; a failing entry does not stop the others
+  async storeCrystallizedContexts(entries: StoredContextEntry[], agentId?: string) {
+    if (this.coordinator) return this.forward('/store/batch', { entries, agentId });
     await this.ensureInitialized();
 
+    const results: Array<{ filePath: string; chunk?: number; stored: boolean; ownershipWarning?: string; error?: string }> = [];
+    await this.contextStorage!.withDeferredIndex(async () => {
+      for (const entry of entries) {
+        try {
+          const ownershipWarning = await this.storeWorkItem(entry, agentId);
+          results.push({ filePath: entry.filePath, chunk: entry.chunk?.index, stored: true, ownershipWarning });
+        } catch (_error) {
+          results.push({ filePath: entry.filePath, chunk: entry.chunk?.index, stored: false, error: _error instanceof Error ? _error.message : String(_error) });
+        }
+      }
+    });
+
+    const stats = await this.contextStorage!.getContextStatistics();
+    return {
+      stored: results.filter(result => result.stored).length,
+      failed: results.filter(result => !result.stored).length,
+      results,
+      totalContexts: stats.totalContexts,
+      totalTokens: stats.totalTokens,
+    };
+  }
+
+  // Returns the ownership warning, if any; throws when the store is rejected or fails
+  private async storeWorkItem({ filePath, context, fileContent, fileMetadata, chunk }: StoredContextEntry, agentId?: string): Promise<string | undefined> {
+    // Agents may name the file relative to the repository; claims and the queue key it by absolute path
+    const workItemKey = this.resolveWorkItemKey(filePath, chunk?.index);
+    const ownershipWarning = await this.checkClaimOwnership(workItemKey, agentId);
+
+    // Churn comes from the scanner's git history even when agents don't pass it back
+    const churn = fileMetadata?.churn ?? this.fileScanner?.getChurn(filePath);
+    
     // Convert partial metadata to complete metadata if provided
-    const completeMetadata = fileMetadata ? {
-      category: fileMetadata.category || 'other' as const,
-      estimatedTokens: fileMetadata.estimatedTokens || 1000
+    const completeMetadata = fileMetadata || churn ? {
+      category: fileMetadata?.category || 'other' as const,
+      estimatedTokens: fileMetadata?.estimatedTokens || 1000,
+      language: fileMetadata?.language,
+      encoding: fileMetadata?.encoding,
+      churn,
     } : undefined;
 
+    // Survey items are stored with the overview template; other stores keep the template the caller passed
+    const storedContext = this.queueManager!.isSurveyItem(workItemKey) ? { ...context, template: 'overview' as const } : context;
+    const store = () => chunk
+      ? this.contextStorage!.storeChunkContext(filePath, chunk, context, fileContent, completeMetadata)
+      : this.contextStorage!.storeContext(filePath, storedContext, fileContent, completeMetadata);
+    let validationErrors: string[];
     try {
-      await this.contextStorage!.storeContext(filePath, context, fileContent, completeMetadata);
-    } finally {
-      // Always release file claim, even if storage fails
-      await this.queueManager!.markProcessed(filePath);
+      validationErrors = await store();
+    } catch (_error) {
+      // Release the claim as a failed attempt so the file is retried, then dead-lettered if it keeps failing
+      const reason = `storage failed: ${_error instanceof Error ? _error.message : String(_error)}`;
+      await this.queueManager!.recordOutcome(workItemKey, 'fail', reason, QueueManager.normalizeAgentId(agentId), true);
+      throw _error;
+    }
+    if (validationErrors.length > 0) {
+      await this.queueManager!.logEvent('validation_failure', { agentId: QueueManager.normalizeAgentId(agentId), file: workItemKey, details: { errors: validationErrors } });
+    }
+    await this.queueManager!.markProcessed(workItemKey, agentId);
+    // Cross-references are only analyzed from the content agents send
+    if (fileContent) {
+      this.storedDuringScan?.push(store);
+    }
+
+    return ownershipWarning;
+  }
+
+  // Ends a claim without storing a context: skip excludes the file for good, defer requeues it behind the files
+  // deferred less often and fail counts an attempt (dead-lettered after repeated failures)
+  async reportOutcome(filePath: string, outcome: WorkItemOutcome, reason: string, agentId?: string, chunkIndex?: number) {
+    if (this.coordinator) return this.forward('/outcome', { filePath, outcome, reason, agentId, chunkIndex });
+    await this.ensureInitialized();
+
+    const key = this.resolveWorkItemKey(filePath, chunkIndex);
+    const result = await this.queueManager!.recordOutcome(key, outcome, reason, QueueManager.normalizeAgentId(agentId));
+    return { filePath: this.toDisplayKey(key), outcome, ...result };
+  }
+
+  // Pushes back the lease on one claimed file (or chunk); without filePath every claim of the agent is renewed
+  async extendClaim(agentId?: string, filePath?: string, options: { chunkIndex?: number; seconds?: number } = {}) {
+    if (this.coordinator) return this.forward('/heartbeat', { agentId, filePath, ...options });
+    await this.ensureInitialized();
+    const owner = QueueManager.normalizeAgentId(agentId);
+
+    if (!filePath) {
+      const renewed = await this.queueManager!.heartbeat(owner, options.seconds);
+      return { agentId: owner, renewed: renewed.map(key => this.toDisplayKey(key)), leaseSeconds: this.queueManager!.getLeaseSeconds() };
+    }
+
+    const key = this.resolveWorkItemKey(filePath, options.chunkIndex);
+    const claim = await this.queueManager!.extendClaim(key, owner, options.seconds);
+    return { agentId: owner, renewed: [this.toDisplayKey(key)], expiresAt: new Date(claim.expiresAt).toISOString() };
+  }
+
+  // Gives a claimed file back to the queue; force releases claims of other (e.g. crashed) agents and only works
+  // on the coordinator machine, so remote agents cannot release each other's claims
+  async releaseClaim(filePath: string, agentId?: string, options: { chunkIndex?: number; force?: boolean } = {}) {
+    if (this.coordinator) {
+      if (options.force) this.requireLocalRepository();
+      return this.forward('/release', { filePath, agentId, chunkIndex: options.chunkIndex });
+    }
+    await this.ensureInitialized();
+
+    const key = this.resolveWorkItemKey(filePath, options.chunkIndex);
+    const claim = await this.queueManager!.releaseWorkItem(key, QueueManager.normalizeAgentId(agentId), options.force);
+    return { released: this.toDisplayKey(key), agentId: claim.agentId };
+  }
+
+  // Remaining work in the order it will be handed out, up to limit queued items
+  async getCrystallizationQueue(limit: number = 50) {
+    await this.ensureInitialized();
+
+    const { queued, inFlight } = await this.queueManager!.getQueueSnapshot();
+    const describe = (file: FileQueueItem) => ({
+      file: this.toDisplayKey(QueueManager.getWorkItemKey(file.path, file.chunk?.index)),
+      priority: file.priority,
+      pinned: file.pinned || undefined,
+      dependencyLevel: file.dependencyLevel,
+      reanalyze: file.reanalyze || undefined,
+      estimatedTokens: file.estimatedTokens,
+    });
+
+    const claimed = [];
+    for (const file of inFlight) {
+      const claim = await this.queueManager!.getClaim(QueueManager.getWorkItemKey(file.path, file.chunk?.index));
+      claimed.push({ ...describe(file), agentId: claim?.agentId, expiresAt: claim ? new Date(claim.expiresAt).toISOString() : undefined });
     }
 
-    const stats = await this.contextStorage!.getContextStatistics();
     return {
-      filePath,
-      totalContexts: stats.totalContexts,
-      totalTokens: stats.totalTokens
+      queued: queued.length,
+      inFlight: inFlight.length,
+      files: queued.slice(0, Math.max(0, limit)).map(describe),
+      claimed,
     };
   }
 
+  async pinFiles(patterns: string[], pinned: boolean = true) {
+    await this.ensureInitialized();
+    const keys = await this.queueManager!.pinFiles(patterns, pinned);
+    return { pinned, files: keys.map(key => this.toDisplayKey(key)) };
+  }
+
+  async adjustQueuePriority(patterns: string[], delta: number) {
+    await this.ensureInitialized();
+    if (!Number.isFinite(delta) || delta === 0) {
+      throw new Error('Priority delta must be a non-zero number (e.g. 20 or -20)');
+    }
+    const keys = await this.queueManager!.adjustPriority(patterns, delta);
+    return { delta, files: keys.map(key => this.toDisplayKey(key)) };
+  }
+
+  // Processed, skipped or dead-lettered files (or any scanned file) are queued again for re-analysis
+  async requeueFiles(patterns: string[]) {
+    await this.ensureInitialized();
+    if (this.queueManager!.isScanInProgress()) {
+      throw new Error('The repository scan is still running; requeue files once it has finished');
+    }
+
+    const scope = QueueManager.createEditScope(patterns);
+    const keys = await this.queueManager!.requeueFiles(this.scannedFiles.filter(file => scope.includes(file.relativePath)));
+    return { files: keys.map(key => this.toDisplayKey(key)) };
+  }
+
+  // Takes queued files out of the session; they are not queued again unless requeued
+  async removeQueuedFiles(patterns: string[]) {
+    await this.ensureInitialized();
+    const keys = await this.queueManager!.removeFiles(patterns);
+    return { files: keys.map(key => this.toDisplayKey(key)) };
+  }
+
+  // Journal events of this session, oldest first, read without initializing the session; a follow-up read
+  // passes the returned offset to get only the events appended since
+  async readJournal(filter: JournalFilter = {}, offset: number = 0) {
+    const repoPath = await this.requireCrystallization();
+    const journal = new EventJournal(QueueManager.getJournalPath(repoPath, this.sessionName));
+    const result = await journal.read(offset);
+    return { ...result, events: EventJournal.filter(result.events, filter), path: journal.getPath() };
+  }
+
+  // Rebuilds this session's saved queue state by replaying its journal, e.g. after processing-queue.json was
+  // corrupted. sessionId picks a journaled session other than the one initialized last
+  async rebuildSessionFromJournal(sessionId?: string) {
+    const repoPath = await this.requireCrystallization();
+    if (this.queueManager?.isScanInProgress()) {
+      throw new Error('The repository scan is still running; rebuild the session once it has finished');
+    }
+    const { events, malformed } = await new EventJournal(QueueManager.getJournalPath(repoPath, this.sessionName)).read();
+    const session = EventJournal.findSession(events, sessionId);
+    
+    // The files are scanned again with the exclusions and scope the session was initialized with
+    const projectConfig = await new ProjectConfigLoader(repoPath).load();
+    const scope = new IncludeScope(session.includePatterns);
+    const scanned = await new FileScanner(repoPath, session.excludePatterns, projectConfig).scanRepository();
+    const files = scanned.filter(file => !file.generated && scope.includes(file.relativePath));
+    
+    const result = await new QueueManager(this.sessionName).rebuildFromJournal(files, repoPath, session, events);
+    // Components initialize again on next use and recover the rebuilt session
+    this.queueManager = undefined;
+    
+    console.error(`🔧 Rebuilt session ${this.sessionName} (${session.sessionId}) from ${result.events} journal events: ${result.processed} processed, ${result.queued} queued`);
+    return { session: this.sessionName, sessionId: session.sessionId, malformedLines: malformed, ...result };
+  }
+
+  private async requireCrystallization(): Promise<string> {
+    const repoPath = this.queueManager?.getSessionInfo().repoPath || process.cwd();
+    if (!(await this.isAlreadyInitialized(repoPath))) {
+      throw new Error(`No crystallization found in ${repoPath}. Please run init_crystallization first to set up the repository.`);
+    }
+    return repoPath;
+  }
+
+  // Agents pass back the absolute path they were given; CLI users type repository-relative paths
+  private resolveWorkItemKey(filePath: string, chunkIndex?: number): string {
+    const repoPath = this.queueManager!.getSessionInfo().repoPath || process.cwd();
+    return QueueManager.getWorkItemKey(path.resolve(repoPath, filePath), chunkIndex);
+  }
+
+  private toDisplayKey(workItemKey: string): string {
+    const repoPath = this.queueManager!.getSessionInfo().repoPath;
+    return repoPath ? path.relative(repoPath, workItemKey) : workItemKey;
+  }
+
+  // Rejects stores from an agent other than the claim owner; anonymous or unclaimed stores are accepted but flagged
+  private async checkClaimOwnership(workItemKey: string, agentId?: string): Promise<string | undefined> {
+    const claim = await this.queueManager!.getClaim(workItemKey);
+    const requester = QueueManager.normalizeAgentId(agentId);
+
+    if (!claim && this.claimsRequired) {
+      throw new Error(`${workItemKey} has no active claim of agent "${requester}" (it expired or was never claimed); store rejected`);
+    }
+    if (!claim) {
+      const warning = `${workItemKey} had no active claim when ${requester} stored its context (claim expired or never taken)`;
+      console.error(`⚠️  ${warning}`);
+      return warning;
+    }
+    if (claim.agentId === requester) {
+      return undefined;
+    }
+    if (agentId?.trim() || this.claimsRequired) {
+      throw new Error(`${workItemKey} is claimed by agent "${claim.agentId}"; store from agent "${requester}" rejected`);
+    }
+
+    const warning = `${workItemKey} is claimed by agent "${claim.agentId}" but was stored without an agentId`;
+    console.error(`⚠️  ${warning}`);
+    return warning;
+  }
+
   async getCrystallizationProgress() {
+    if (this.coordinator) return this.forward('/progress', {});
     await this.ensureInitialized();
 
     const progress = this.queueManager!.getProgress();
@@ -276,19 +1014,30 @@ export class CrystallizerCore {
 
     return {
       ...progress,
+      scan: this.scanProgress,
+      generatedFiles: this.getGeneratedFilesSummary(),
+      undecodableFiles: this.fileScanner?.getUndecodableFiles() ?? [],
+      centrality: this.centralitySummary,
+      dependencyOrder: this.dependencyOrderSummary,
+      rescan: this.rescanSummary,
+      survey: progress.survey ? { ...this.surveySummary, ...progress.survey } : undefined,
+      agents: await this.queueManager!.getAgentActivity(),
+      outcomes: this.queueManager!.getOutcomes(),
+      analytics: this.queueManager!.getAnalytics(),
       contextStats: stats,
       session: sessionInfo,
-      completionPercentage: progress.totalFiles > 0 ? Math.round((progress.processedFiles / progress.totalFiles) * 100) : 0,
+      sessions: await QueueManager.listSessions(sessionInfo.repoPath || process.cwd()),
       estimatedCompletionTime: progress.estimatedTimeRemaining ? new Date(Date.now() + progress.estimatedTimeRemaining).toISOString() : null,
     };
   }
 
-  async searchCrystallizedContexts(query: string, maxTokens: number = 4000, category?: string) {
+  async searchCrystallizedContexts(query: string, maxTokens: number = 4000, category?: string, packagePath?: string) {
     await this.ensureInitialized();
 
-    const results = await this.contextSearch!.searchContexts(query, maxTokens, category);
+    const results = await this.contextSearch!.searchContexts(query, maxTokens, category, packagePath);
     return {
       query,
+      package: packagePath,
       results: results.length,
       totalTokens: results.reduce((sum, r) => sum + (r.context.tokenCount || 0), 0),
       matches: results.map(r => ({
@@ -296,6 +1045,7 @@ export class CrystallizerCore {
         relevance: r.relevanceScore,
         category: r.context.category,
         complexity: r.context.complexity,
+        package: r.context.package,
         tokens: r.context.tokenCount,
         highlights: r.highlights,
         purpose: `${r.context.purpose.substring(0, 150)}...`,
@@ -304,14 +1054,23 @@ export class CrystallizerCore {
     };
   }
 
-  async getCrystallizedBundle(files: string[], maxTokens: number = 8000) {
+  async getCrystallizedBundle(files: string[], maxTokens: number = 8000, packagePath?: string) {
     await this.ensureInitialized();
 
-    const bundle = await this.contextSearch!.getContextBundle(files, maxTokens);
+    const bundle = await this.contextSearch!.getContextBundle(files, maxTokens, packagePath);
+    
+    // Group included files by workspace package so agents can see package boundaries
+    const packages: Record<string, string[]> = {};
+    bundle.contexts.forEach(ctx => {
+      const key = ctx.package || '(root)';
+      (packages[key] = packages[key] || []).push(ctx.relativePath);
+    });
+    
     return {
       requestedFiles: files.length,
       includedFiles: bundle.contexts.length,
       totalTokens: bundle.totalTokens,
+      packages,
       contexts: bundle.contexts.map(ctx => ({
         file: ctx.relativePath,
         purpose: ctx.purpose,
@@ -321,6 +1080,7 @@ export class CrystallizerCore {
         crossReferences: ctx.crossReferences,
         complexity: ctx.complexity,
         category: ctx.category,
+        package: ctx.package,
         tokenCount: ctx.tokenCount,
       })),
     };
@@ -432,6 +1192,8 @@ export class CrystallizerCore {
   }
 
   async getCrystallizationGuidance(repoPath?: string): Promise<any> {
+    if (this.coordinator) return this.forward('/guidance', {});
+    
     // Use provided repo path or try to determine from initialized context storage
     const targetRepoPath = repoPath || (this.contextStorage ? this.contextStorage['repoPath'] : null);
     
@@ -15,6 +15,19 @@ export interface CrystallizedContext {
   aiGuidance?: string;
   errorHandling?: string[];
   integrationPoints?: string[];
+  package?: string;
+  chunks?: FileChunk[];
+  language?: string;
+  encoding?: string; // Source encoding before transcoding to UTF-8
+  churn?: GitChurn;
+}
+
+export interface FileChunk {
+  index: number; // 1-based
+  total: number;
+  startLine: number;
+  endLine: number;
+  label: string;
 }
 
 export interface CrossReference {
@@ -53,6 +66,42 @@ export interface FileQueueItem {
   estimatedTokens: number;
   category: 'config' | 'source' | 'test' | 'docs' | 'other';
   lastModified: Date;
+  package?: string;
+  chunk?: FileChunk;
+  generated?: GeneratedFileInfo;
+  language?: string;
+  encoding?: string;
+  churn?: GitChurn;
+  deferrals?: number; // Times an agent deferred this item; served after items deferred fewer times
+  dependencyLevel?: number; // Import-graph depth in dependency order mode; lower levels are served first
+  pinned?: boolean; // Pinned by a queue edit: served before everything else
+  reanalyze?: boolean; // Requeued by a queue edit or after its survey: crystallized again even though its context is fresh
+  survey?: boolean; // Survey pass item: served first, crystallized with the overview template
+}
+
+// Change history from the local git log over the configured window
+export interface GitChurn {
+  commits: number;
+  linesChanged: number;
+  authors: number;
+  lastCommitDate: string; // ISO 8601
+  score: number; // 0-100 blend of commits, lines changed, recency and authors
+}
+
+export interface GeneratedFileInfo {
+  kind: 'generated' | 'vendored';
+  reason: string;
+}
+
+export interface UndecodableFile {
+  relativePath: string;
+  reason: string;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  relativePath: string;
+  type: 'npm' | 'pnpm' | 'cargo' | 'go';
 }
 
 export interface CrystallizationProgress {
@@ -67,7 +116,22 @@ export interface CrystallizationProgress {
   avgTokensPerFile: number;
   filesByCategory: Record<string, number>;
   processedByCategory: Record<string, number>;
-  completionPercentage: number;
+  completionPercentage: number; // Processed, skipped and dead-lettered items count as done
+  scanInProgress?: boolean;
+  skippedFiles: number;
+  deferredFiles: number; // Queued items that were deferred at least once
+  retryingFiles: number; // Failed items waiting for another attempt
+  deadLetterFiles: number;
+  survey?: { selected: number; completed: number }; // Survey pass items, completed once their overview is stored
+}
+
+export interface ScanProgress {
+  discovered: number; // Paths found by the directory walk
+  ignored: number; // Ignored files, plus ignored directories skipped without walking them
+  scanned: number; // Files stat'ed and analyzed (or served from the scan cache)
+  queued: number; // Work items emitted (chunked files count once per chunk)
+  cacheHits: number;
+  completed: boolean;
 }
 
 export interface SearchResult {
@@ -82,6 +146,87 @@ export interface ContextBundle {
   query: string;
 }
 
+// Entry in file-claims.json, keyed by work item key
+export interface FileClaim {
+  agentId: string;
+  claimedAt: number; // Epoch milliseconds
+  expiresAt: number; // Lease end, pushed back by heartbeats
+}
+
+export type WorkItemOutcome = 'skip' | 'defer' | 'fail';
+
+export interface SkippedWorkItem {
+  relativePath: string; // With a #chunk-N suffix for chunks
+  reason: string;
+  agentId: string;
+  skippedAt: string;
+}
+
+export interface FailedWorkItem {
+  relativePath: string; // With a #chunk-N suffix for chunks
+  attempts: number;
+  lastError: string;
+  lastAgentId: string;
+  lastFailedAt: string;
+}
+
+// Per-agent counters persisted with the queue state
+export interface AgentStats {
+  claimed: number;
+  completed: number;
+  firstClaimAt: string;
+  lastCompletedAt?: string;
+  byCategory?: Record<string, ThroughputStats>; // Completions with a known claim-to-store duration
+}
+
+export interface ThroughputStats {
+  files: number;
+  tokens: number; // Estimated tokens of the files
+  durationMs: number; // Summed claim-to-store time
+}
+
+// Claim-to-store record of a stored work item; the most recent ones are kept with the queue state
+export interface CompletedWorkItem {
+  relativePath: string; // With a #chunk-N suffix for chunks
+  agentId: string;
+  category: FileQueueItem['category'];
+  estimatedTokens: number;
+  claimedAt: string;
+  completedAt: string;
+  durationMs: number;
+}
+
+export interface SessionAnalytics {
+  throughput?: { files: number; tokens: number; spanMs: number; filesPerHour: number; tokensPerMinute: number }; // Rolling window
+  remainingTokens: number; // Estimated tokens of queued and claimed items
+  estimatedTimeRemaining?: number; // Milliseconds at the rolling throughput
+  byCategory: Array<{ category: string; files: number; tokens: number; avgDurationMs: number; tokensPerMinute: number }>;
+  byAgent: Array<{ agentId: string; files: number; tokens: number; avgDurationMs: number; avgTokensPerFile: number; tokensPerMinute: number }>;
+  slowestFiles: CompletedWorkItem[];
+  idleGaps: Array<{ from: string; to: string; durationMs: number }>; // No work item claimed for a while
+  totalIdleMs: number;
+}
+
+export type JournalEventType =
+  | 'init' | 'claim' | 'release' | 'expire' | 'store' | 'validation_failure'
+  | 'skip' | 'defer' | 'fail' | 'edit' | 'survey' | 'rescan' | 'update' | 'rebuild';
+
+// One line of the append-only session journal
+export interface JournalEvent {
+  timestamp: string;
+  type: JournalEventType;
+  sessionId: string;
+  agentId?: string;
+  file?: string; // Relative path, with a #chunk-N suffix for chunks
+  details?: Record<string, unknown>;
+}
+
+export interface AgentActivity extends AgentStats {
+  agentId: string;
+  inFlight: string[]; // Relative paths (with #chunk-N suffixes) currently claimed by the agent
+  filesPerHour: number;
+}
+
 export interface QueueState {
   sessionId: string;
   repoPath: string;
@@ -91,6 +236,16 @@ export interface QueueState {
   startTime: Date;
   lastActivity: Date;
   excludePatterns: string[];
+  includePatterns?: string[]; // Session scope; empty or missing means the whole repository
+  agents?: Record<string, AgentStats>;
+  // Keyed by work item key
+  skipped?: Record<string, SkippedWorkItem>;
+  failures?: Record<string, FailedWorkItem>; // Still being retried
+  deadLetter?: Record<string, FailedWorkItem>; // Gave up after the maximum number of attempts
+  removedFiles?: string[]; // Taken out of the session by a queue edit
+  revision?: number; // Bumped by every queue edit so other processes adopt the edited state
+  completions?: CompletedWorkItem[];
+  surveyedFiles?: string[]; // Survey items whose overview is stored; their upgrade is queued or done
 }
 
 export interface ValidationResult {
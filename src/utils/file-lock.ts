@@ -0,0 +1,148 @@
+import { promises as fs, Stats } from 'fs';
+import crypto from 'crypto';
+
+// A lock file is written right after it is created; one that still names no process after this long was left
+// half-written by a killed process. Locks naming a live process are never broken, however old
+const STALE_LOCK_MS = 30000;
+const RETRY_MS = 20;
+const ACQUIRE_TIMEOUT_MS = 30000;
+
+// Advisory lock shared by every process that works on the same file: "<file>.lock" is created
+// exclusively (O_EXCL), so only one process at a time can hold it
+export class FileLock {
+  private lockPath: string;
+  private token = crypto.randomUUID();
+
+  constructor(targetPath: string) {
+    this.lockPath = `${targetPath}.lock`;
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      await this.release();
+    }
+  }
+
+  async acquire(): Promise<void> {
+    const deadline = Date.now() + ACQUIRE_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await fs.writeFile(this.lockPath, JSON.stringify({ pid: process.pid, token: this.token, acquiredAt: Date.now() }), { flag: 'wx' });
+        return;
+      } catch (_error) {
+        if (errorCode(_error) !== 'EEXIST') {
+          throw _error;
+        }
+      }
+
+      if (await this.removeIfStale()) continue;
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock ${this.lockPath}`);
+      }
+      // Jitter keeps competing processes from retrying in lockstep
+      await new Promise(resolve => setTimeout(resolve, RETRY_MS + Math.random() * RETRY_MS));
+    }
+  }
+
+  async release(): Promise<void> {
+    try {
+      // Never delete a lock that was broken as stale and re-acquired by someone else
+      const holder = JSON.parse(await fs.readFile(this.lockPath, 'utf-8'));
+      if (holder.token === this.token) {
+        await fs.unlink(this.lockPath);
+      }
+    } catch (_error) {
+      // Lock already gone
+    }
+  }
+
+  // Writes via a temporary file and rename, so readers in other processes never see a partial file
+  static async writeAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, content, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (_error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw _error;
+    }
+  }
+
+  // Breaks the lock when its holder is gone. The lock is first renamed to a name only this process knows and
+  // then checked again, so a lock that another process broke and re-acquired in between is never deleted
+  private async removeIfStale(): Promise<boolean> {
+    let content: string;
+    let stats: Stats;
+    try {
+      [content, stats] = await Promise.all([fs.readFile(this.lockPath, 'utf-8'), fs.stat(this.lockPath)]);
+    } catch (_error) {
+      // Released between our attempts: retry right away
+      return errorCode(_error) === 'ENOENT';
+    }
+    if (!this.isStale(content, stats)) {
+      return false;
+    }
+
+    const brokenPath = `${this.lockPath}.${crypto.randomUUID()}.stale`;
+    try {
+      await fs.rename(this.lockPath, brokenPath);
+    } catch (_error) {
+      // Someone else released or broke it first
+      return errorCode(_error) === 'ENOENT';
+    }
+
+    try {
+      const [brokenContent, brokenStats] = await Promise.all([fs.readFile(brokenPath, 'utf-8'), fs.stat(brokenPath)]);
+      if (brokenStats.ino !== stats.ino || brokenContent !== content) {
+        // We took a fresh lock that replaced the stale one after our check: hand it back unless the lock
+        // was acquired yet again meanwhile (link, unlike rename, never replaces an existing lock)
+        await fs.link(brokenPath, this.lockPath).catch(_error => {
+          console.error(`⚠️  Could not restore lock ${this.lockPath} taken while breaking a stale lock:`, _error);
+        });
+        return false;
+      }
+
+      const holderPid = this.parsePid(content);
+      console.error(`⚠️  Removed stale lock ${this.lockPath}${holderPid ? ` (pid ${holderPid})` : ''}`);
+      return true;
+    } finally {
+      await fs.unlink(brokenPath).catch(() => undefined);
+    }
+  }
+
+  // A lock without a pid is still being written by its creator, unless it is old
+  private isStale(content: string, stats: Stats): boolean {
+    const holderPid = this.parsePid(content);
+    if (holderPid !== undefined) {
+      return !this.isProcessAlive(holderPid);
+    }
+    return Date.now() - stats.mtimeMs >= STALE_LOCK_MS;
+  }
+
+  private parsePid(content: string): number | undefined {
+    try {
+      const pid = JSON.parse(content).pid;
+      return typeof pid === 'number' ? pid : undefined;
+    } catch (_error) {
+      return undefined;
+    }
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0); // Signal 0 only checks that the process exists
+      return true;
+    } catch (_error) {
+      return errorCode(_error) === 'EPERM';
+    }
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as { code?: string }).code;
+}
\ No newline at end of file